@@ -1,16 +1,46 @@
-import React, { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from './hooks/useAuth';
-import { Layout } from './components/Layout';
+import { useRepositories } from './hooks/useRepositories';
+import { PreferencesContext, useLoadPreferences } from './hooks/usePreferences';
+import { startSync } from './lib/sync';
+import { dataBackendName } from './lib/repositories';
+import { getCurrentWeekStart, getWeekStart, parseDate } from './utils/dates';
+import { readAppLink, clearAppLink } from './utils/deepLinks';
+import { Layout, Page } from './components/Layout';
 import { Auth } from './components/Auth';
 import { Dashboard } from './components/Dashboard';
 import { GoalsManager } from './components/GoalsManager';
 import { Analytics } from './components/Analytics';
+import { Settings } from './components/Settings';
 
 function App() {
-  const { user, loading } = useAuth();
-  const [currentPage, setCurrentPage] = useState<'dashboard' | 'goals' | 'analytics'>('dashboard');
+  const { user, loading, passwordRecovery } = useAuth();
+  const repositories = useRepositories();
+  const preferencesState = useLoadPreferences(user?.id ?? null, repositories);
+  const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const [appLink, setAppLink] = useState(() => readAppLink(window.location.search));
+  const { dateSettings } = preferencesState;
+  const [selectedWeek, setSelectedWeek] = useState(() =>
+    appLink?.week ? parseDate(appLink.week) : getCurrentWeekStart(dateSettings)
+  );
+  // Realigned when the preferred first day of the week changes
+  const weekStart = useMemo(() => getWeekStart(selectedWeek, dateSettings), [selectedWeek, dateSettings]);
+
+  useEffect(() => {
+    if (user && dataBackendName === 'local') {
+      return startSync(user.id);
+    }
+  }, [user]);
 
-  if (loading) {
+  // The dashboard opens the link as it mounts, so it is only used once
+  useEffect(() => {
+    if (user && appLink && !preferencesState.loading) {
+      clearAppLink();
+      setAppLink(null);
+    }
+  }, [user, appLink, preferencesState.loading]);
+
+  if (loading || (user && preferencesState.loading)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center">
         <div className="text-center">
@@ -25,23 +55,32 @@ function App() {
     return <Auth />;
   }
 
+  // Signed in through a password reset link, so a new password comes first
+  if (passwordRecovery) {
+    return <Auth initialMode="update-password" />;
+  }
+
   const renderCurrentPage = () => {
     switch (currentPage) {
       case 'dashboard':
-        return <Dashboard />;
+        return <Dashboard weekStart={weekStart} onWeekChange={setSelectedWeek} link={appLink} />;
       case 'goals':
-        return <GoalsManager />;
+        return <GoalsManager weekStart={weekStart} onWeekChange={setSelectedWeek} />;
       case 'analytics':
         return <Analytics />;
+      case 'settings':
+        return <Settings />;
       default:
-        return <Dashboard />;
+        return <Dashboard weekStart={weekStart} onWeekChange={setSelectedWeek} />;
     }
   };
 
   return (
-    <Layout currentPage={currentPage} onNavigate={setCurrentPage}>
-      {renderCurrentPage()}
-    </Layout>
+    <PreferencesContext.Provider value={preferencesState}>
+      <Layout currentPage={currentPage} onNavigate={setCurrentPage}>
+        {renderCurrentPage()}
+      </Layout>
+    </PreferencesContext.Provider>
   );
 }
 
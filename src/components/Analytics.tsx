@@ -1,123 +1,142 @@
-import React, { useState, useEffect } from 'react';
-import { TrendingUp, Calendar, Award, AlertTriangle, BarChart3 } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useCallback } from 'react';
+import { TrendingUp, Calendar, Award, AlertTriangle, BarChart3, Flame, Lightbulb, NotebookPen } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, ComposedChart, Area, TooltipProps } from 'recharts';
+import { format } from 'date-fns';
 import { useAuth } from '../hooks/useAuth';
-import { getBurnoutLevel, getAdaptiveGoalSuggestion } from '../utils/burnout';
-import { formatDate, formatDisplayDate } from '../utils/dates';
-import { subWeeks, eachWeekOfInterval, startOfWeek, endOfWeek } from 'date-fns';
-
-interface WeeklyData {
-  weekStart: string;
-  goalCompletions: number;
-  avgBurnoutScore: number;
-  totalGoals: number;
+import { useRepositories } from '../hooks/useRepositories';
+import { useScoringModels } from '../hooks/useScoringModels';
+import { usePreferences } from '../hooks/usePreferences';
+import { loadSeriesHistories } from '../lib/goalHistory';
+import { loadAnalyticsDataset, groupByPeriod, rollingAverages, AnalyticsDataset, Granularity } from '../lib/analyticsData';
+import { getBurnoutLevel, getAdaptiveGoalSuggestion, findScoringModel, explainBurnoutScore } from '../utils/burnout';
+import type { WeeklyReview } from '../lib/repositories';
+import { formatDate, formatDisplayDate, formatWeekRange, getToday, getWeekStart, getStoredWeekRange, parseDate, DateSettings } from '../utils/dates';
+import { isDayMet } from '../utils/progress';
+import { WELLNESS_METRICS, readMetricValues } from '../utils/metrics';
+import { forecastBurnout } from '../utils/forecast';
+import { findInsights, MIN_INSIGHT_SAMPLE } from '../utils/insights';
+import { computeGoalStreaks, GoalWeek } from '../utils/streaks';
+import { DateRange, presetRange, describeRange } from '../utils/dateRanges';
+import { STREAK_REST_DAY_OPTIONS } from '../utils/preferences';
+import { RangePicker } from './RangePicker';
+import { CalendarHeatmap } from './CalendarHeatmap';
+import { BurnoutBreakdownBar } from './BurnoutBreakdownBar';
+
+interface HabitHistory {
+  id: string;
+  title: string;
+  status: 'active' | 'paused' | 'ended';
+  weeks: GoalWeek[];
 }
 
-interface BurnoutTrend {
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+const BURNOUT_COLOR = '#3b82f6';
+
+// A line on the trend chart. Unitless ratings share the 0-10 axis with the
+// burnout score; amounts such as hours get their own axis on the right.
+interface TrendSeries {
+  key: string;
+  label: string;
+  color: string;
+  unit: string;
+  axis: 'score' | 'amount';
+}
+
+interface TrendPoint {
   date: string;
-  burnoutScore: number;
-  stressLevel: number;
-  moodLevel: number;
-  sleepHours: number;
+  forecast?: number;
+  band?: [number, number];
+  [series: string]: string | number | [number, number] | undefined;
+}
+
+function formatPeriodTick(date: string, granularity: Granularity): string {
+  return format(parseDate(date), granularity === 'month' ? 'MMM yy' : 'MMM d');
+}
+
+function formatPeriodLabel(date: string, granularity: Granularity, settings: DateSettings): string {
+  switch (granularity) {
+    case 'day':
+      return formatDisplayDate(parseDate(date), settings);
+    case 'week':
+      return `Week of ${format(parseDate(date), 'MMM d, yyyy')}`;
+    default:
+      return format(parseDate(date), 'MMMM yyyy');
+  }
 }
 
 export function Analytics() {
   const { user } = useAuth();
-  const [weeklyData, setWeeklyData] = useState<WeeklyData[]>([]);
-  const [burnoutTrend, setBurnoutTrend] = useState<BurnoutTrend[]>([]);
+  const repositories = useRepositories();
+  const { models: scoringModels } = useScoringModels();
+  const { preferences, dateSettings, streakOptions, savePreferences } = usePreferences();
+  const [range, setRange] = useState<DateRange>(() => presetRange('4w', getToday(dateSettings)));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [dataset, setDataset] = useState<AnalyticsDataset | null>(null);
+  const [habits, setHabits] = useState<HabitHistory[]>([]);
+  const [reviews, setReviews] = useState<WeeklyReview[]>([]);
+  const [visibleSeries, setVisibleSeries] = useState<string[]>(['burnoutScore']);
+  const [showRolling, setShowRolling] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (user) {
-      loadAnalyticsData();
-    }
-  }, [user]);
-
-  const loadAnalyticsData = async () => {
+  const loadAnalyticsData = useCallback(async () => {
     if (!user) return;
 
     setLoading(true);
     
     try {
-      // Get data for last 8 weeks
-      const endDate = new Date();
-      const startDate = subWeeks(endDate, 7);
-      const weeks = eachWeekOfInterval({ start: startDate, end: endDate }, { weekStartsOn: 1 });
-
-      // Load weekly goal completion data
-      const weeklyPromises = weeks.map(async (weekStart) => {
-        const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-        
-        // Get goals for this week
-        const { data: goals, error: goalsError } = await supabase
-          .from('goals')
-          .select(`
-            id,
-            target_days,
-            daily_completions!inner(completed)
-          `)
-          .eq('user_id', user.id)
-          .eq('week_start', formatDate(weekStart));
-
-        if (goalsError) throw goalsError;
-
-        // Calculate completion percentage
-        const totalGoals = goals?.length || 0;
-        const totalCompletions = goals?.reduce((sum, goal) => {
-          const completions = (goal as any).daily_completions?.filter((c: any) => c.completed).length || 0;
-          return sum + (completions / goal.target_days);
-        }, 0) || 0;
-
-        const completionPercentage = totalGoals > 0 ? (totalCompletions / totalGoals) * 100 : 0;
-
-        // Get average burnout score for this week
-        const { data: checkins, error: checkinsError } = await supabase
-          .from('burnout_checkins')
-          .select('burnout_score')
-          .eq('user_id', user.id)
-          .gte('date', formatDate(weekStart))
-          .lte('date', formatDate(weekEnd));
-
-        if (checkinsError) throw checkinsError;
-
-        const avgBurnoutScore = checkins?.length > 0 
-          ? checkins.reduce((sum, c) => sum + c.burnout_score, 0) / checkins.length 
-          : 0;
-
-        return {
-          weekStart: formatDate(weekStart),
-          goalCompletions: Math.round(completionPercentage),
-          avgBurnoutScore: Math.round(avgBurnoutScore * 10) / 10,
-          totalGoals,
-        };
-      });
-
-      const weeklyResults = await Promise.all(weeklyPromises);
-      setWeeklyData(weeklyResults);
-
-      // Load burnout trend data (last 30 days)
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-      const { data: burnoutData, error: burnoutError } = await supabase
-        .from('burnout_checkins')
-        .select('date, burnout_score, stress_level, mood_level, sleep_hours')
-        .eq('user_id', user.id)
-        .gte('date', formatDate(thirtyDaysAgo))
-        .order('date', { ascending: true });
-
-      if (burnoutError) throw burnoutError;
-
-      setBurnoutTrend(burnoutData || []);
+      // One fetch covers the whole range; charts and cards are derived from it
+      const analyticsDataset = await loadAnalyticsDataset(
+        repositories,
+        user.id,
+        range.from ? parseDate(range.from) : null,
+        parseDate(range.to),
+        dateSettings.weekStartsOn
+      );
+      setDataset(analyticsDataset);
+
+      // Reflections from the weekly reviews in the range, newest first
+      const weeklyReviews = await repositories.weeklyReviews.listByWeekRange(
+        user.id,
+        getStoredWeekRange(getWeekStart(parseDate(analyticsDataset.from), dateSettings)).from,
+        analyticsDataset.to
+      );
+      setReviews(weeklyReviews.reverse());
+
+      // Load the full history of each recurring habit for streaks
+      const allSeries = await repositories.goalSeries.list(user.id);
+      const histories = await loadSeriesHistories(repositories, user.id, allSeries.map(series => series.id));
+      setHabits(allSeries.map(series => ({
+        id: series.id,
+        title: series.title,
+        status: series.status,
+        weeks: histories.get(series.id) || [],
+      })));
     } catch (error) {
       console.error('Error loading analytics data:', error);
     } finally {
       setLoading(false);
     }
+  }, [user, repositories, range.from, range.to, dateSettings]);
+
+  useEffect(() => {
+    loadAnalyticsData();
+  }, [loadAnalyticsData]);
+
+  const handleRestDaysChange = async (streakRestDays: number | null) => {
+    try {
+      await savePreferences({ streak_rest_days: streakRestDays });
+    } catch (error) {
+      console.error('Error saving rest days:', error);
+    }
   };
 
-  if (loading) {
+  // Only the first load blanks the page; range changes keep the old charts until the new data arrives
+  if (loading && !dataset) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
@@ -125,26 +144,163 @@ export function Analytics() {
     );
   }
 
-  const latestBurnoutScore = burnoutTrend.length > 0 ? burnoutTrend[burnoutTrend.length - 1].burnoutScore : 0;
-  const burnoutInfo = getBurnoutLevel(latestBurnoutScore);
-  const adaptiveSuggestion = getAdaptiveGoalSuggestion(latestBurnoutScore);
+  const today = formatDate(getToday(dateSettings));
+  const checkins = dataset ? dataset.checkins : [];
+  const periods = dataset ? groupByPeriod(dataset, granularity, dateSettings.weekStartsOn) : [];
+  const rangeLabel = describeRange(range);
+
+  const latestCheckin = checkins.length > 0 ? checkins[checkins.length - 1] : null;
+  const latestBurnoutScore = latestCheckin ? latestCheckin.burnout_score : 0;
+  const latestModel = findScoringModel(scoringModels, latestCheckin?.model_version);
+  const burnoutInfo = getBurnoutLevel(latestBurnoutScore, latestModel);
+  const adaptiveSuggestion = getAdaptiveGoalSuggestion(latestBurnoutScore, latestModel);
+
+  const trackedMetrics = WELLNESS_METRICS.filter(metric =>
+    periods.some(period => typeof period.values[metric.key] === 'number')
+  );
+
+  const trendSeries: TrendSeries[] = [
+    { key: 'burnoutScore', label: 'Burnout Score', color: BURNOUT_COLOR, unit: '/10', axis: 'score' },
+    ...trackedMetrics.map(metric => ({
+      key: metric.key,
+      label: metric.label,
+      color: metric.color,
+      unit: metric.unit,
+      axis: metric.unit ? 'amount' as const : 'score' as const,
+    })),
+  ];
+  const shownSeries = trendSeries.filter(series => visibleSeries.includes(series.key));
+  const showBurnoutSeries = visibleSeries.includes('burnoutScore');
+  const amountUnits = [...new Set(shownSeries.filter(series => series.axis === 'amount').map(series => series.unit))];
+
+  // Rolling averages only make sense over consecutive days
+  const rolling = granularity === 'day' && showRolling ? rollingAverages(periods) : null;
+
+  // Extend a daily trend that reaches today with a dashed 7-day projection
+  // that starts at the last check-in
+  const forecast = granularity === 'day' && range.to === today && showBurnoutSeries
+    ? forecastBurnout(checkins.map(checkin => ({ date: checkin.date, score: checkin.burnout_score })), today)
+    : [];
+  const trendChartData: TrendPoint[] = [
+    ...periods.map((period, index) => {
+      const score = period.avgBurnoutScore === null ? undefined : Math.round(period.avgBurnoutScore * 10) / 10;
+      const point: TrendPoint = { date: period.start, burnoutScore: score };
+      trackedMetrics.forEach(metric => {
+        point[metric.key] = period.values[metric.key];
+      });
+      if (rolling) {
+        point.burnoutScore_avg = rolling[index].burnoutScore ?? undefined;
+        trackedMetrics.forEach(metric => {
+          point[`${metric.key}_avg`] = rolling[index].values[metric.key];
+        });
+      }
+      if (forecast.length > 0 && score !== undefined && period.start === latestCheckin?.date) {
+        point.forecast = score;
+        point.band = [score, score];
+      }
+      return point;
+    }),
+    ...forecast.map(point => ({ date: point.date, forecast: point.forecast, band: [point.lower, point.upper] as [number, number] })),
+  ];
+
+  const toggleSeries = (key: string) => {
+    setVisibleSeries(visibleSeries.includes(key)
+      ? visibleSeries.filter(visible => visible !== key)
+      : [...visibleSeries, key]);
+  };
+
+  const formatTrendValue = (value: number | [number, number], name: string): [string, string] => {
+    if (name === 'band') return [`${(value as [number, number]).join('–')}/10`, 'Likely range'];
+    if (name === 'forecast') return [`${value}/10`, 'Forecast'];
+    const series = trendSeries.find(candidate => candidate.key === name.replace(/_avg$/, ''));
+    if (!series) return [String(value), name];
+    return [`${value}${series.unit}`, name.endsWith('_avg') ? `${series.label} (7-day avg)` : series.label];
+  };
+
+  // Daily points also explain what made up that day's burnout score
+  const checkinsByDate = new Map(checkins.map(checkin => [checkin.date, checkin]));
+  const renderTrendTooltip = ({ active, payload, label }: TooltipProps<number | [number, number], string>) => {
+    if (!active || !payload || payload.length === 0) return null;
+
+    const checkin = granularity === 'day' && showBurnoutSeries ? checkinsByDate.get(label) : undefined;
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-3 text-sm w-64">
+        <p className="font-medium text-gray-900 mb-1">{formatPeriodLabel(label, granularity, dateSettings)}</p>
+        {payload.map(entry => {
+          if (entry.value === undefined || entry.name === undefined) return null;
+          const [value, name] = formatTrendValue(entry.value, String(entry.name));
+          return (
+            <p key={String(entry.name)} style={{ color: entry.color }}>
+              {name}: {value}
+            </p>
+          );
+        })}
+        {checkin && (
+          <div className="mt-2 pt-2 border-t border-gray-100">
+            <BurnoutBreakdownBar
+              breakdown={explainBurnoutScore(checkin, findScoringModel(scoringModels, checkin.model_version), checkin.extras)}
+              compact
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
 
-  const avgGoalCompletion = weeklyData.length > 0 
-    ? weeklyData.reduce((sum, week) => sum + week.goalCompletions, 0) / weeklyData.length 
+  const performanceData = periods.map(period => ({
+    start: period.start,
+    goalCompletions: period.completionRate === null ? null : Math.round(period.completionRate * 100),
+  }));
+  const hasGoalData = periods.some(period => period.completionRate !== null);
+  // Dots stop being readable once a line has many points
+  const showDots = periods.length <= 60;
+
+
+  // Relate check-ins to goal completion on finished days
+  const goalsById = new Map((dataset ? dataset.goals : []).map(goal => [goal.id, goal]));
+  const insights = dataset ? findInsights(
+    checkins
+      .filter(checkin => checkin.date < today)
+      .map(checkin => ({ date: checkin.date, values: readMetricValues(checkin) })),
+    dataset.completions.flatMap(completion => {
+      const goal = goalsById.get(completion.goal_id);
+      return goal && completion.date >= dataset.from && completion.date < today
+        ? [{ goalKey: goal.series_id || goal.id, title: goal.title, date: completion.date, met: isDayMet(goal, completion) }]
+        : [];
+    })
+  ) : [];
+
+  const habitStreaks = habits.map(habit => ({
+    ...habit,
+    streaks: computeGoalStreaks(habit.weeks, today, streakOptions),
+  }));
+
+  const goalAggregates = dataset ? dataset.goalAggregates : [];
+  const avgGoalCompletion = goalAggregates.length > 0
+    ? goalAggregates.reduce((sum, aggregate) => sum + aggregate.progress.ratio, 0) / goalAggregates.length * 100
     : 0;
 
-  const avgBurnoutScore = weeklyData.length > 0 
-    ? weeklyData.reduce((sum, week) => sum + week.avgBurnoutScore, 0) / weeklyData.length 
+  const avgBurnoutScore = checkins.length > 0
+    ? checkins.reduce((sum, checkin) => sum + checkin.burnout_score, 0) / checkins.length
     : 0;
+  const averageSuffix = granularity === 'day' ? '' : `, ${granularity}ly averages`;
 
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
-        <p className="text-gray-600 mt-1">
-          Insights into your productivity and wellness patterns
-        </p>
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-600 mt-1">
+            Insights into your productivity and wellness patterns
+          </p>
+        </div>
+        <RangePicker
+          range={range}
+          granularity={granularity}
+          onRangeChange={setRange}
+          onGranularityChange={setGranularity}
+        />
       </div>
 
       {/* Summary Cards */}
@@ -204,40 +360,125 @@ export function Analytics() {
 
       {/* Burnout Trend Chart */}
       <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-gray-900">Burnout Trend (Last 30 Days)</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Burnout & Wellness Trend ({rangeLabel}{averageSuffix}{forecast.length > 0 && ' + 7-Day Forecast'})
+          </h2>
           <Calendar className="h-5 w-5 text-gray-500" />
         </div>
 
-        {burnoutTrend.length > 0 ? (
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={burnoutTrend}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis 
-                  dataKey="date" 
-                  tickFormatter={(date) => formatDisplayDate(new Date(date)).split(',')[0]}
-                  stroke="#6b7280"
-                />
-                <YAxis domain={[0, 10]} stroke="#6b7280" />
-                <Tooltip 
-                  labelFormatter={(date) => formatDisplayDate(new Date(date))}
-                  formatter={(value: number, name: string) => [
-                    name === 'burnoutScore' ? `${value}/10` : value,
-                    name === 'burnoutScore' ? 'Burnout Score' : name
-                  ]}
-                />
-                <Line 
-                  type="monotone" 
-                  dataKey="burnoutScore" 
-                  stroke="#3b82f6" 
-                  strokeWidth={3}
-                  dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-                  activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+        {checkins.length > 0 ? (
+          <>
+            {/* Series toggles */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {trendSeries.map(series => {
+                const visible = visibleSeries.includes(series.key);
+                return (
+                  <button
+                    key={series.key}
+                    onClick={() => toggleSeries(series.key)}
+                    className={`inline-flex items-center px-3 py-1 rounded-full text-sm border transition-colors ${
+                      visible ? 'border-gray-300 bg-white text-gray-900' : 'border-gray-200 bg-gray-50 text-gray-400'
+                    }`}
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-full mr-2"
+                      style={{ backgroundColor: visible ? series.color : '#d1d5db' }}
+                    />
+                    {series.label}
+                  </button>
+                );
+              })}
+              {granularity === 'day' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-600 ml-auto">
+                  <input
+                    type="checkbox"
+                    checked={showRolling}
+                    onChange={(e) => setShowRolling(e.target.checked)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>7-day rolling average</span>
+                </label>
+              )}
+            </div>
+
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={trendChartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis 
+                    dataKey="date" 
+                    tickFormatter={(date) => formatPeriodTick(date, granularity)}
+                    stroke="#6b7280"
+                  />
+                  <YAxis yAxisId="score" domain={[0, 10]} stroke="#6b7280" />
+                  {amountUnits.length > 0 && (
+                    <YAxis
+                      yAxisId="amount"
+                      orientation="right"
+                      domain={[0, 'auto']}
+                      stroke="#6b7280"
+                      unit={amountUnits.length === 1 ? amountUnits[0] : undefined}
+                    />
+                  )}
+                  <Tooltip content={renderTrendTooltip} />
+                  {showBurnoutSeries && (
+                    <Area
+                      yAxisId="score"
+                      type="monotone"
+                      dataKey="band"
+                      stroke="none"
+                      fill={BURNOUT_COLOR}
+                      fillOpacity={0.12}
+                      name="band"
+                    />
+                  )}
+                  {showBurnoutSeries && (
+                    <Line
+                      yAxisId="score"
+                      type="monotone"
+                      dataKey="forecast"
+                      stroke={BURNOUT_COLOR}
+                      strokeWidth={2}
+                      strokeDasharray="6 4"
+                      dot={false}
+                      connectNulls
+                      name="forecast"
+                    />
+                  )}
+                  {/* With rolling averages on, the raw values fade behind the smoothed lines */}
+                  {shownSeries.map(series => (
+                    <Line
+                      key={series.key}
+                      yAxisId={series.axis}
+                      type="monotone"
+                      dataKey={series.key}
+                      stroke={series.color}
+                      strokeWidth={series.key === 'burnoutScore' ? 3 : 2}
+                      strokeOpacity={rolling ? 0.3 : 1}
+                      dot={showDots && !rolling ? { fill: series.color, strokeWidth: 2, r: series.key === 'burnoutScore' ? 4 : 3 } : false}
+                      activeDot={{ r: 6, stroke: series.color, strokeWidth: 2 }}
+                      connectNulls
+                      name={series.key}
+                    />
+                  ))}
+                  {rolling && shownSeries.map(series => (
+                    <Line
+                      key={`${series.key}_avg`}
+                      yAxisId={series.axis}
+                      type="monotone"
+                      dataKey={`${series.key}_avg`}
+                      stroke={series.color}
+                      strokeWidth={series.key === 'burnoutScore' ? 3 : 2}
+                      dot={false}
+                      connectNulls
+                      name={`${series.key}_avg`}
+                    />
+                  ))}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </>
         ) : (
           <div className="text-center py-12">
             <BarChart3 className="h-12 w-12 text-gray-300 mx-auto mb-4" />
@@ -247,30 +488,78 @@ export function Analytics() {
         )}
       </div>
 
-      {/* Weekly Performance */}
+      {/* Wellness Metrics */}
+      {trackedMetrics.length > 0 && (
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-900">Wellness Metrics ({rangeLabel}{averageSuffix})</h2>
+            <Calendar className="h-5 w-5 text-gray-500" />
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {trackedMetrics.map(metric => {
+              const Icon = metric.icon;
+              return (
+                <div key={metric.key}>
+                  <h3 className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <Icon className="h-4 w-4 mr-2" style={{ color: metric.color }} />
+                    {metric.label}{metric.unit && ` (${metric.unit})`}
+                  </h3>
+                  <div className="h-40">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={periods}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                        <XAxis
+                          dataKey="start"
+                          tickFormatter={(date) => formatPeriodTick(date, granularity)}
+                          stroke="#6b7280"
+                        />
+                        <YAxis domain={[metric.min, metric.max]} stroke="#6b7280" />
+                        <Tooltip
+                          labelFormatter={(date) => formatPeriodLabel(date, granularity, dateSettings)}
+                          formatter={(value: number) => [`${value}${metric.unit}`, metric.label]}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey={(period: typeof periods[number]) => period.values[metric.key]}
+                          stroke={metric.color}
+                          strokeWidth={2}
+                          dot={showDots ? { r: 3 } : false}
+                          connectNulls
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Goal Performance */}
       <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-gray-900">Weekly Performance</h2>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Goal Completion by {GRANULARITY_LABELS[granularity]} ({rangeLabel})
+          </h2>
           <TrendingUp className="h-5 w-5 text-gray-500" />
         </div>
 
-        {weeklyData.length > 0 ? (
+        {hasGoalData ? (
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={weeklyData}>
+              <BarChart data={performanceData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
                 <XAxis 
-                  dataKey="weekStart" 
-                  tickFormatter={(date) => formatDisplayDate(new Date(date)).split(',')[0]}
+                  dataKey="start" 
+                  tickFormatter={(date) => formatPeriodTick(date, granularity)}
                   stroke="#6b7280"
                 />
                 <YAxis domain={[0, 100]} stroke="#6b7280" />
                 <Tooltip 
-                  labelFormatter={(date) => `Week of ${formatDisplayDate(new Date(date))}`}
-                  formatter={(value: number, name: string) => [
-                    name === 'goalCompletions' ? `${value}%` : `${value}/10`,
-                    name === 'goalCompletions' ? 'Goal Completion' : 'Avg Burnout Score'
-                  ]}
+                  labelFormatter={(date) => formatPeriodLabel(date, granularity, dateSettings)}
+                  formatter={(value: number) => [`${value}%`, 'Goal Completion']}
                 />
                 <Bar 
                   dataKey="goalCompletions" 
@@ -289,6 +578,164 @@ export function Analytics() {
           </div>
         )}
       </div>
+
+      {/* Calendar Heatmap */}
+      <CalendarHeatmap />
+
+      {/* Insights */}
+      <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">Insights</h2>
+          <Lightbulb className="h-5 w-5 text-gray-500" />
+        </div>
+
+        {insights.length > 0 ? (
+          <div className="space-y-3">
+            {insights.slice(0, 6).map(insight => {
+              const Icon = insight.metric.icon;
+              return (
+                <div key={insight.id} className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 bg-white">
+                  <Icon className="h-5 w-5 mt-0.5 shrink-0" style={{ color: insight.metric.color }} />
+                  <div className="flex-1">
+                    <p className="text-gray-900">{insight.text}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {insight.confidence === 'strong'
+                        ? 'Strong pattern'
+                        : 'Possible pattern, keep tracking to confirm'}
+                      {' · '}{Math.round(insight.rateAbove * 100)}% vs {Math.round(insight.rateBelow * 100)}% completion
+                      {' · '}based on {insight.sampleSize} days
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-gray-400 pt-2">
+              These are correlations in your own data for the selected range ({rangeLabel}), not proof of cause and effect.
+            </p>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Lightbulb className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No clear patterns yet</p>
+            <p className="text-sm text-gray-400">
+              Insights need at least {MIN_INSIGHT_SAMPLE} days with both a check-in and planned goals, and only clear patterns are shown
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Weekly Reflections */}
+      <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">Weekly Reflections ({rangeLabel})</h2>
+          <NotebookPen className="h-5 w-5 text-gray-500" />
+        </div>
+
+        {reviews.length > 0 ? (
+          <div className="space-y-4">
+            {reviews.map(review => (
+              <div key={review.id} className="p-4 rounded-lg border border-gray-200 bg-white">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <h3 className="font-medium text-gray-900">{formatWeekRange(parseDate(review.week_start))}</h3>
+                  <span className="text-xs text-gray-500">
+                    {review.completion_rate !== null && `${Math.round(review.completion_rate * 100)}% of goals`}
+                    {review.completion_rate !== null && review.avg_burnout_score !== null && ' · '}
+                    {review.avg_burnout_score !== null && `burnout ${review.avg_burnout_score.toFixed(1)}/10`}
+                  </span>
+                </div>
+                <div className="grid gap-3 md:grid-cols-2 text-sm">
+                  <div>
+                    <p className="text-xs font-medium text-green-700 mb-1">What worked</p>
+                    <p className="text-gray-700 whitespace-pre-line">{review.went_well || '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-amber-700 mb-1">What didn't</p>
+                    <p className="text-gray-700 whitespace-pre-line">{review.didnt_work || '—'}</p>
+                  </div>
+                </div>
+                {review.decisions.some(decision => decision.action !== 'keep') && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    {review.decisions
+                      .filter(decision => decision.action !== 'keep')
+                      .map(decision => decision.action === 'drop'
+                        ? `Dropped "${decision.goal_title}"`
+                        : `"${decision.goal_title}" ${decision.from_days} → ${decision.to_days} days`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <NotebookPen className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No weekly reviews in this range</p>
+            <p className="text-sm text-gray-400">Reviews open on the Dashboard at the end of each week</p>
+          </div>
+        )}
+      </div>
+
+      {/* Habit Streaks */}
+      <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">Habit Streaks</h2>
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Rest days</span>
+            <select
+              value={String(preferences.streak_rest_days ?? '')}
+              onChange={(e) => handleRestDaysChange(e.target.value === '' ? null : Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {STREAK_REST_DAY_OPTIONS.map(option => (
+                <option key={option.label} value={String(option.value ?? '')}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {habitStreaks.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Habit</th>
+                  <th className="py-2 px-4 font-medium text-right">Current (days)</th>
+                  <th className="py-2 px-4 font-medium text-right">Longest (days)</th>
+                  <th className="py-2 px-4 font-medium text-right">Current (weeks)</th>
+                  <th className="py-2 pl-4 font-medium text-right">Longest (weeks)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {habitStreaks.map(habit => (
+                  <tr key={habit.id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">
+                      {habit.title}
+                      {habit.status !== 'active' && (
+                        <span className="ml-2 text-xs text-gray-400">({habit.status})</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-4 text-right">
+                      <span className={`inline-flex items-center ${habit.streaks.daily.current > 0 ? 'text-orange-600 font-medium' : 'text-gray-500'}`}>
+                        {habit.streaks.daily.current > 0 && <Flame className="h-3.5 w-3.5 mr-1" />}
+                        {habit.streaks.daily.current}
+                      </span>
+                    </td>
+                    <td className="py-2 px-4 text-right text-gray-700">{habit.streaks.daily.longest}</td>
+                    <td className="py-2 px-4 text-right text-gray-700">{habit.streaks.weekly.current}</td>
+                    <td className="py-2 pl-4 text-right text-gray-700">{habit.streaks.weekly.longest}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Flame className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No recurring habits yet</p>
+            <p className="text-sm text-gray-400">Make a goal repeat weekly to start building streaks</p>
+          </div>
+        )}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,51 +1,141 @@
 import React, { useState } from 'react';
-import { Target, Mail, Lock, User, AlertCircle } from 'lucide-react';
+import { Target, Mail, Lock, User, AlertCircle, ArrowLeft, CheckCircle2, AtSign } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { isSupabaseConfigured } from '../lib/supabase';
 
-export function Auth() {
-  const [isSignUp, setIsSignUp] = useState(false);
+type AuthMode = 'sign-in' | 'sign-up' | 'magic-link' | 'reset-request' | 'update-password';
+
+interface AuthErrorLike {
+  message?: string;
+  code?: string;
+  status?: number;
+}
+
+// Errors a magic-link request gets for an address without an account. The
+// form answers them like a sent link, so it does not reveal who has one.
+const UNKNOWN_ACCOUNT_CODES = ['user_not_found', 'otp_disabled'];
+
+// Friendlier wording for the errors people run into most
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  invalid_credentials: 'That email and password do not match. Check them or reset your password.',
+  email_not_confirmed: 'Confirm your email first. Look for the link we sent when you signed up.',
+  user_already_exists: 'An account with this email already exists. Sign in or reset your password.',
+  email_exists: 'An account with this email already exists.',
+  otp_expired: 'This link has expired or was already used. Request a new one.',
+  same_password: 'Choose a password you have not used before.',
+  weak_password: 'Choose a stronger password with at least 6 characters.',
+  email_address_invalid: 'Enter a valid email address.',
+  over_email_send_rate_limit: 'Too many emails were sent. Wait a minute and try again.',
+  over_request_rate_limit: 'Too many attempts. Wait a minute and try again.',
+  session_not_found: 'Your reset link has expired. Request a new one.',
+  reauthentication_needed: 'Sign in again before making this change.',
+};
+
+function describeAuthError(error: unknown): string {
+  const { message, code, status } = (error || {}) as AuthErrorLike;
+  if (code && AUTH_ERROR_MESSAGES[code]) return AUTH_ERROR_MESSAGES[code];
+  if (status === 429) return AUTH_ERROR_MESSAGES.over_request_rate_limit;
+  return message || 'Something went wrong. Please try again.';
+}
+
+// Links from auth emails come back with the failure in the URL hash
+function readRedirectError(): string {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const code = params.get('error_code');
+  if (!code && !params.get('error')) return '';
+  return describeAuthError({ code: code || undefined, message: params.get('error_description') || undefined });
+}
+
+const inputClass = 'w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all';
+
+const SUBMIT_LABELS: Record<AuthMode, string> = {
+  'sign-in': 'Sign In',
+  'sign-up': 'Create Account',
+  'magic-link': 'Email Me a Sign-in Link',
+  'reset-request': 'Send Reset Link',
+  'update-password': 'Save New Password',
+};
+
+const MODE_INTROS: Partial<Record<AuthMode, string>> = {
+  'magic-link': 'We will email you a link that signs you in without a password.',
+  'reset-request': 'Enter your account email and we will send you a link to choose a new password.',
+  'update-password': 'Choose a new password for your account.',
+};
+
+interface AuthProps {
+  initialMode?: AuthMode;
+}
+
+export function Auth({ initialMode = 'sign-in' }: AuthProps) {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [fullName, setFullName] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState(readRedirectError);
+  const [notice, setNotice] = useState('');
 
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, signInWithMagicLink, requestPasswordReset, updatePassword } = useAuth();
 
-  // Check if Supabase is configured
-  const isSupabaseConfigured = import.meta.env.VITE_SUPABASE_URL && 
-    import.meta.env.VITE_SUPABASE_ANON_KEY &&
-    import.meta.env.VITE_SUPABASE_URL !== 'your-supabase-url' &&
-    import.meta.env.VITE_SUPABASE_ANON_KEY !== 'your-supabase-anon-key' &&
-    import.meta.env.VITE_SUPABASE_URL.startsWith('https://') &&
-    import.meta.env.VITE_SUPABASE_URL.includes('.supabase.co');
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+    setPassword('');
+    setConfirmPassword('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!isSupabaseConfigured) {
       setError('Database not configured. Please click "Connect to Supabase" in the top right to set up your database.');
       return;
     }
 
+    if (mode === 'update-password' && password !== confirmPassword) {
+      setError('The passwords do not match.');
+      return;
+    }
+
     setLoading(true);
     setError('');
+    setNotice('');
 
     try {
-      if (isSignUp) {
-        const { error } = await signUp(email, password, fullName);
+      if (mode === 'sign-up') {
+        const { data, error } = await signUp(email, password, fullName);
         if (error) throw error;
-      } else {
+        // Without a session the project requires the address to be confirmed first
+        if (!data?.session) {
+          setNotice(`We sent a confirmation link to ${email}. Open it to finish creating your account.`);
+        }
+      } else if (mode === 'sign-in') {
         const { error } = await signIn(email, password);
         if (error) throw error;
+      } else if (mode === 'magic-link') {
+        const { error } = await signInWithMagicLink(email);
+        if (error && !UNKNOWN_ACCOUNT_CODES.includes((error as AuthErrorLike).code || '')) throw error;
+        setNotice(`If an account exists for ${email}, a sign-in link is on its way. Open it on this device to continue.`);
+      } else if (mode === 'reset-request') {
+        const { error } = await requestPasswordReset(email);
+        if (error) throw error;
+        setNotice(`If an account exists for ${email}, a reset link is on its way. It expires in an hour.`);
+      } else {
+        const { error } = await updatePassword(password);
+        if (error) throw error;
       }
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(describeAuthError(err));
     } finally {
       setLoading(false);
     }
   };
 
+  const showEmail = mode !== 'update-password';
+  const showPassword = mode === 'sign-in' || mode === 'sign-up' || mode === 'update-password';
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
@@ -57,7 +147,7 @@ export function Auth() {
             </div>
             <h1 className="text-3xl font-bold text-gray-900">GoalSync</h1>
             <p className="text-gray-600 mt-2">
-              Your personal wellness & goal tracker
+              {MODE_INTROS[mode] || 'Your personal wellness & goal tracker'}
             </p>
           </div>
 
@@ -80,7 +170,7 @@ export function Auth() {
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
-            {isSignUp && (
+            {mode === 'sign-up' && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Full Name
@@ -91,7 +181,7 @@ export function Auth() {
                     type="text"
                     value={fullName}
                     onChange={(e) => setFullName(e.target.value)}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                    className={inputClass}
                     placeholder="Enter your full name"
                     required
                     disabled={!isSupabaseConfigured}
@@ -100,73 +190,223 @@ export function Auth() {
               </div>
             )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Email
-              </label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
-                  placeholder="Enter your email"
-                  required
-                  disabled={!isSupabaseConfigured}
-                />
+            {showEmail && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClass}
+                    placeholder="Enter your email"
+                    required
+                    disabled={!isSupabaseConfigured}
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
-                  placeholder="Enter your password"
-                  required
-                  minLength={6}
-                  disabled={!isSupabaseConfigured}
-                />
+            {showPassword && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">
+                    {mode === 'update-password' ? 'New Password' : 'Password'}
+                  </label>
+                  {mode === 'sign-in' && (
+                    <button
+                      type="button"
+                      onClick={() => switchMode('reset-request')}
+                      disabled={!isSupabaseConfigured}
+                      className="text-sm text-indigo-600 hover:text-indigo-800 transition-colors disabled:opacity-50"
+                    >
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClass}
+                    placeholder={mode === 'update-password' ? 'Enter a new password' : 'Enter your password'}
+                    autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+                    required
+                    minLength={6}
+                    disabled={!isSupabaseConfigured}
+                  />
+                </div>
               </div>
-            </div>
+            )}
+
+            {mode === 'update-password' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm New Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={inputClass}
+                    placeholder="Enter it again"
+                    autoComplete="new-password"
+                    required
+                    minLength={6}
+                    disabled={!isSupabaseConfigured}
+                  />
+                </div>
+              </div>
+            )}
 
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-3">
                 <p className="text-red-700 text-sm">{error}</p>
               </div>
             )}
+            {notice && (
+              <div className="flex items-start bg-green-50 border border-green-200 rounded-lg p-3">
+                <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 mr-2 flex-shrink-0" />
+                <p className="text-green-700 text-sm">{notice}</p>
+              </div>
+            )}
 
             <button
               type="submit"
               disabled={loading || !isSupabaseConfigured}
               className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {loading ? 'Loading...' : isSignUp ? 'Create Account' : 'Sign In'}
+              {loading ? 'Loading...' : notice && mode !== 'sign-up' ? 'Send Again' : SUBMIT_LABELS[mode]}
             </button>
           </form>
 
           {/* Toggle */}
-          <div className="mt-6 text-center">
-            <button
-              type="button"
-              onClick={() => setIsSignUp(!isSignUp)}
-              disabled={!isSupabaseConfigured}
-              className="text-indigo-600 hover:text-indigo-800 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSignUp
-                ? 'Already have an account? Sign In'
-                : "Don't have an account? Sign Up"}
-            </button>
+          <div className="mt-6 text-center space-y-3">
+            {mode === 'sign-in' && (
+              <button
+                type="button"
+                onClick={() => switchMode('magic-link')}
+                disabled={!isSupabaseConfigured}
+                className="block w-full text-sm text-gray-600 hover:text-gray-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sign in with an email link instead
+              </button>
+            )}
+            {(mode === 'sign-in' || mode === 'sign-up') && (
+              <button
+                type="button"
+                onClick={() => switchMode(mode === 'sign-up' ? 'sign-in' : 'sign-up')}
+                disabled={!isSupabaseConfigured}
+                className="text-indigo-600 hover:text-indigo-800 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {mode === 'sign-up'
+                  ? 'Already have an account? Sign In'
+                  : "Don't have an account? Sign Up"}
+              </button>
+            )}
+            {(mode === 'magic-link' || mode === 'reset-request') && (
+              <button
+                type="button"
+                onClick={() => switchMode('sign-in')}
+                className="inline-flex items-center text-indigo-600 hover:text-indigo-800 font-medium transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to Sign In
+              </button>
+            )}
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Account email change for signed-in users. Supabase keeps the old address
+// until the confirmation link sent to the new one is opened.
+export function ChangeEmail() {
+  const { user, changeEmail } = useAuth();
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (email.trim().toLowerCase() === user?.email?.toLowerCase()) {
+      setError('This is already your email address.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const { error } = await changeEmail(email.trim());
+      if (error) throw error;
+      setNotice(`We sent a confirmation link to ${email.trim()}. Your email changes once you open it.`);
+      setEmail('');
+    } catch (err) {
+      setError(describeAuthError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">Account Email</h2>
+        <AtSign className="h-5 w-5 text-gray-500" />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Signed in as <span className="font-medium text-gray-900">{user?.email}</span>
+        {user?.new_email && <> · waiting for you to confirm {user.new_email}</>}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <label className="block">
+          <span className="block text-sm text-gray-700 mb-1">New email</span>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            disabled={!isSupabaseConfigured}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+          />
+        </label>
+
+        {!isSupabaseConfigured && (
+          <p className="text-sm text-gray-500">Connect a database to manage your account email.</p>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+        {notice && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-700 text-sm">{notice}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading || !isSupabaseConfigured}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? 'Sending...' : 'Change email'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { BurnoutBreakdown } from '../utils/burnout';
+
+interface BurnoutBreakdownBarProps {
+  breakdown: BurnoutBreakdown;
+  compact?: boolean;
+}
+
+// Stacked bar of what each metric added to a burnout score, on the 0-10 scale
+export function BurnoutBreakdownBar({ breakdown, compact = false }: BurnoutBreakdownBarProps) {
+  const components = [...breakdown.components].sort((a, b) => b.points - a.points);
+  const total = components.reduce((sum, component) => sum + component.points, 0);
+  // Contributions past 10 are capped in the score, so the bar fills instead of overflowing
+  const scale = Math.max(10, total);
+
+  if (components.length === 0) {
+    return <p className="text-xs text-gray-500">Nothing added to your score</p>;
+  }
+
+  return (
+    <div>
+      <div className={`flex w-full bg-gray-200 rounded-full overflow-hidden ${compact ? 'h-2' : 'h-3'}`}>
+        {components.map(component => (
+          <div
+            key={component.metric.key}
+            style={{ width: `${(component.points / scale) * 100}%`, backgroundColor: component.metric.color }}
+            title={component.reason}
+          />
+        ))}
+      </div>
+      <ul className={`mt-2 space-y-0.5 ${compact ? 'text-xs' : 'text-sm'}`}>
+        {components.map(component => (
+          <li key={component.metric.key} className="flex items-center text-gray-700">
+            <span className="h-2 w-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: component.metric.color }} />
+            {component.reason.charAt(0).toUpperCase() + component.reason.slice(1)}
+          </li>
+        ))}
+      </ul>
+      {total > 10 && (
+        <p className="text-xs text-gray-500 mt-1">These add up to more than 10, so the score is capped at 10</p>
+      )}
+    </div>
+  );
+}
@@ -1,118 +1,175 @@
-import React, { useState } from 'react';
-import { X, Heart, Moon, Smile, Clock } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { formatDate } from '../utils/dates';
-import { calculateBurnoutScore, getBurnoutLevel } from '../utils/burnout';
+import { useRepositories } from '../hooks/useRepositories';
+import { useScoringModels } from '../hooks/useScoringModels';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Checkin } from '../lib/repositories';
+import { formatDate, formatDisplayDate, getToday, parseDate } from '../utils/dates';
+import { explainBurnoutScore, getBurnoutLevel } from '../utils/burnout';
+import {
+  CORE_METRICS,
+  EXTRA_METRICS,
+  MetricValues,
+  WellnessMetric,
+  readMetricValues,
+  splitMetricValues,
+} from '../utils/metrics';
+import { BurnoutBreakdownBar } from './BurnoutBreakdownBar';
 
 interface BurnoutCheckinProps {
-  onComplete: (checkinData: any) => void;
+  onComplete: (checkinData: Checkin) => void;
   onCancel: () => void;
-  existingCheckin?: any;
+  existingCheckin?: Checkin | null;
+  date?: string; // day to check in for, defaults to today
+  catchUp?: { index: number; total: number }; // position when catching up on several days
 }
 
-export function BurnoutCheckin({ onComplete, onCancel, existingCheckin }: BurnoutCheckinProps) {
+function initialValues(checkin: Checkin | null | undefined): MetricValues {
+  return checkin
+    ? readMetricValues(checkin)
+    : Object.fromEntries(CORE_METRICS.map(metric => [metric.key, metric.defaultValue]));
+}
+
+export function BurnoutCheckin({ onComplete, onCancel, existingCheckin, date: initialDate, catchUp }: BurnoutCheckinProps) {
   const { user } = useAuth();
-  const [stressLevel, setStressLevel] = useState(existingCheckin?.stress_level || 3);
-  const [sleepHours, setSleepHours] = useState(existingCheckin?.sleep_hours || 8);
-  const [moodLevel, setMoodLevel] = useState(existingCheckin?.mood_level || 3);
-  const [timeSpentHours, setTimeSpentHours] = useState(existingCheckin?.time_spent_hours || 8);
+  const repositories = useRepositories();
+  const { activeModel } = useScoringModels();
+  const { dateSettings } = usePreferences();
+  const today = formatDate(getToday(dateSettings));
+  const [date, setDate] = useState(initialDate || existingCheckin?.date || today);
+  const [existing, setExisting] = useState<Checkin | null>(existingCheckin || null);
+  const [values, setValues] = useState<MetricValues>(() => initialValues(existingCheckin));
+  const [showExtras, setShowExtras] = useState(() => EXTRA_METRICS.some(metric => metric.key in values));
+  const [loadingDay, setLoadingDay] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!user || !date) return;
+
+    const showCheckin = (checkin: Checkin | null) => {
+      setExisting(checkin);
+      setValues(initialValues(checkin));
+      setShowExtras(EXTRA_METRICS.some(metric => typeof checkin?.extras?.[metric.key] === 'number'));
+    };
+
+    if (existingCheckin && date === existingCheckin.date) {
+      showCheckin(existingCheckin);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingDay(true);
+
+    repositories.checkins.getByDate(user.id, date)
+      .then(checkin => {
+        if (!cancelled) showCheckin(checkin);
+      })
+      .catch(error => {
+        console.error('Error loading check-in:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingDay(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, repositories, date, existingCheckin]);
+
+  const { columns, extras } = splitMetricValues(values);
 
-  const metrics = {
-    stress_level: stressLevel,
-    sleep_hours: sleepHours,
-    mood_level: moodLevel,
-    time_spent_hours: timeSpentHours,
+  const setValue = (key: string, value: number) => {
+    setValues(current => ({ ...current, [key]: value }));
   };
 
-  const burnoutScore = calculateBurnoutScore(metrics);
-  const burnoutInfo = getBurnoutLevel(burnoutScore);
+  const clearValue = (key: string) => {
+    setValues(current => {
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const breakdown = explainBurnoutScore(columns, activeModel, extras);
+  const burnoutScore = breakdown.score;
+  const burnoutInfo = getBurnoutLevel(burnoutScore, activeModel);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    if (!date || date > today) {
+      setError('Check-ins can only be recorded for today or earlier.');
+      return;
+    }
+
     setLoading(true);
+    setError('');
 
     try {
       const checkinData = {
         user_id: user.id,
-        date: formatDate(new Date()),
-        stress_level: stressLevel,
-        sleep_hours: sleepHours,
-        mood_level: moodLevel,
-        time_spent_hours: timeSpentHours,
+        date,
+        ...columns,
+        extras,
         burnout_score: burnoutScore,
+        model_version: activeModel.version,
       };
 
-      if (existingCheckin) {
-        const { data, error } = await supabase
-          .from('burnout_checkins')
-          .update(checkinData)
-          .eq('id', existingCheckin.id)
-          .select()
-          .single();
-
-        if (error) throw error;
+      if (existing) {
+        const data = await repositories.checkins.update(user.id, existing.id, checkinData);
         onComplete(data);
       } else {
-        const { data, error } = await supabase
-          .from('burnout_checkins')
-          .insert(checkinData)
-          .select()
-          .single();
-
-        if (error) throw error;
+        const data = await repositories.checkins.create(checkinData);
         onComplete(data);
       }
     } catch (error) {
       console.error('Error saving check-in:', error);
+      setError('Could not save your check-in. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const RatingSlider = ({ 
-    value, 
-    onChange, 
-    min, 
-    max, 
-    step = 1, 
-    label, 
-    icon: Icon, 
-    unit = '' 
-  }: {
-    value: number;
-    onChange: (value: number) => void;
-    min: number;
-    max: number;
-    step?: number;
-    label: string;
-    icon: React.ComponentType<any>;
-    unit?: string;
-  }) => (
-    <div className="space-y-3">
-      <div className="flex items-center space-x-2">
-        <Icon className="h-5 w-5 text-indigo-600" />
-        <label className="text-sm font-medium text-gray-700">{label}</label>
-      </div>
-      <div className="flex items-center space-x-4">
-        <input
-          type="range"
-          min={min}
-          max={max}
-          step={step}
-          value={value}
-          onChange={(e) => onChange(Number(e.target.value))}
-          className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
-        />
-        <span className="text-sm font-medium text-gray-900 min-w-[3rem] text-right">
-          {value}{unit}
-        </span>
+  const RatingSlider = ({ metric, optional = false }: { metric: WellnessMetric; optional?: boolean }) => {
+    const Icon = metric.icon;
+    const value = values[metric.key];
+    const recorded = typeof value === 'number';
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <Icon className="h-5 w-5 text-indigo-600" />
+          <label className="flex-1 text-sm font-medium text-gray-700">{metric.prompt}</label>
+          {optional && recorded && (
+            <button
+              type="button"
+              onClick={() => clearValue(metric.key)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-4">
+          <input
+            type="range"
+            min={metric.min}
+            max={metric.max}
+            step={metric.step}
+            value={recorded ? value : metric.defaultValue}
+            onChange={(e) => setValue(metric.key, Number(e.target.value))}
+            className={`flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider ${recorded ? '' : 'opacity-50'}`}
+          />
+          <span className="text-sm font-medium text-gray-900 min-w-[3rem] text-right">
+            {recorded ? `${value}${metric.unit}` : '—'}
+          </span>
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
@@ -120,7 +177,14 @@ export function BurnoutCheckin({ onComplete, onCancel, existingCheckin }: Burnou
         <div className="p-6">
           {/* Header */}
           <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-bold text-gray-900">Daily Wellness Check-in</h2>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Daily Wellness Check-in</h2>
+              {catchUp && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Catching up: day {catchUp.index + 1} of {catchUp.total}
+                </p>
+              )}
+            </div>
             <button
               onClick={onCancel}
               className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -130,49 +194,46 @@ export function BurnoutCheckin({ onComplete, onCancel, existingCheckin }: Burnou
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Stress Level */}
-            <RatingSlider
-              value={stressLevel}
-              onChange={setStressLevel}
-              min={1}
-              max={5}
-              label="How stressed do you feel today?"
-              icon={Heart}
-            />
-
-            {/* Sleep Hours */}
-            <RatingSlider
-              value={sleepHours}
-              onChange={setSleepHours}
-              min={0}
-              max={12}
-              step={0.5}
-              label="How many hours did you sleep last night?"
-              icon={Moon}
-              unit="h"
-            />
-
-            {/* Mood Level */}
-            <RatingSlider
-              value={moodLevel}
-              onChange={setMoodLevel}
-              min={1}
-              max={5}
-              label="How would you rate your mood today?"
-              icon={Smile}
-            />
-
-            {/* Time Spent */}
-            <RatingSlider
-              value={timeSpentHours}
-              onChange={setTimeSpentHours}
-              min={0}
-              max={16}
-              step={0.5}
-              label="How many hours will you spend on tasks today?"
-              icon={Clock}
-              unit="h"
-            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Check-in for
+              </label>
+              <input
+                type="date"
+                value={date}
+                max={today}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {loadingDay
+                  ? 'Loading...'
+                  : existing
+                    ? `Editing your check-in for ${formatDisplayDate(parseDate(date), dateSettings)}`
+                    : date === today
+                      ? "Today's check-in"
+                      : `No check-in yet for ${formatDisplayDate(parseDate(date), dateSettings)}`}
+              </p>
+            </div>
+
+            {CORE_METRICS.map(metric => (
+              <RatingSlider key={metric.key} metric={metric} />
+            ))}
+
+            {/* Optional metrics are only stored once moved */}
+            {showExtras ? (
+              EXTRA_METRICS.map(metric => (
+                <RatingSlider key={metric.key} metric={metric} optional />
+              ))
+            ) : (
+              <button
+                type="button"
+                onClick={() => setShowExtras(true)}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+              >
+                Track more metrics (optional)
+              </button>
+            )}
 
             {/* Burnout Preview */}
             <div className={`rounded-lg p-4 ${burnoutInfo.bgColor}`}>
@@ -185,8 +246,17 @@ export function BurnoutCheckin({ onComplete, onCancel, existingCheckin }: Burnou
               <p className={`text-sm ${burnoutInfo.color}`}>
                 {burnoutInfo.message}
               </p>
+              <div className="mt-3">
+                <BurnoutBreakdownBar breakdown={breakdown} compact />
+              </div>
             </div>
 
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex space-x-3 pt-4">
               <button
@@ -198,10 +268,10 @@ export function BurnoutCheckin({ onComplete, onCancel, existingCheckin }: Burnou
               </button>
               <button
                 type="submit"
-                disabled={loading}
+                disabled={loading || loadingDay}
                 className="flex-1 px-4 py-3 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                {loading ? 'Saving...' : existingCheckin ? 'Update' : 'Save Check-in'}
+                {loading ? 'Saving...' : existing ? 'Update' : 'Save Check-in'}
               </button>
             </div>
           </form>
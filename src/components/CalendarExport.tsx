@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { X, CalendarPlus } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import { buildWeekCalendar } from '../lib/calendarExport';
+import { formatDate, formatWeekRange } from '../utils/dates';
+import { downloadFile } from '../utils/download';
+
+interface CalendarExportProps {
+  weekStart: Date;
+  onClose: () => void;
+}
+
+export function CalendarExport({ weekStart, onClose }: CalendarExportProps) {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { preferences } = usePreferences();
+  const [timedGoals, setTimedGoals] = useState(false);
+  const [goalTime, setGoalTime] = useState('07:00');
+  const [includeCheckin, setIncludeCheckin] = useState(preferences.reminder_time !== null);
+  const [checkinTime, setCheckinTime] = useState(preferences.reminder_time ?? '20:00');
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleDownload = async () => {
+    if (!user) return;
+
+    setDownloading(true);
+    setError('');
+    try {
+      const ics = await buildWeekCalendar(repositories, user.id, weekStart, {
+        goalTime: timedGoals ? goalTime : null,
+        checkinTime: includeCheckin ? checkinTime : null,
+        appUrl: window.location.origin + window.location.pathname,
+      });
+      downloadFile(`goalsync-week-${formatDate(weekStart)}.ics`, ics, 'text/calendar');
+      onClose();
+    } catch (error) {
+      console.error('Error building calendar:', error);
+      setError('Could not create the calendar file. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Add to Calendar</h2>
+              <p className="text-sm text-gray-500 mt-1">{formatWeekRange(weekStart)}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-6">
+            Download an .ics file for Google Calendar, Outlook or Apple Calendar. Each event links
+            back to GoalSync, and importing again for the same week updates the events.
+          </p>
+
+          <div className="space-y-5">
+            <fieldset>
+              <legend className="text-sm font-semibold text-gray-900 mb-2">Goals</legend>
+              <label className="flex items-center text-sm text-gray-700 mb-2">
+                <input
+                  type="radio"
+                  checked={!timedGoals}
+                  onChange={() => setTimedGoals(false)}
+                  className="mr-2 text-indigo-600 focus:ring-indigo-500"
+                />
+                One all-day event per goal for the week
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={timedGoals}
+                  onChange={() => setTimedGoals(true)}
+                  className="mr-2 text-indigo-600 focus:ring-indigo-500"
+                />
+                A daily event at
+                <input
+                  type="time"
+                  value={goalTime}
+                  onChange={(e) => setGoalTime(e.target.value)}
+                  disabled={!timedGoals}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                />
+              </label>
+              {timedGoals && (
+                <p className="text-xs text-gray-500 mt-2">Days a goal is already done are left out</p>
+              )}
+            </fieldset>
+
+            <fieldset>
+              <legend className="text-sm font-semibold text-gray-900 mb-2">Check-ins</legend>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={includeCheckin}
+                  onChange={(e) => setIncludeCheckin(e.target.checked)}
+                  className="mr-2 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                Daily wellness check-in at
+                <input
+                  type="time"
+                  value={checkinTime}
+                  onChange={(e) => setCheckinTime(e.target.value)}
+                  disabled={!includeCheckin}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                />
+              </label>
+            </fieldset>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex space-x-3 pt-6">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={downloading || (timedGoals && !goalTime) || (includeCheckin && !checkinTime)}
+              className="flex-1 inline-flex items-center justify-center px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+            >
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              {downloading ? 'Creating...' : 'Download .ics'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import { addDays, eachWeekOfInterval, format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { useScoringModels } from '../hooks/useScoringModels';
+import { usePreferences } from '../hooks/usePreferences';
+import { loadAnalyticsDataset, AnalyticsDataset, DayAggregate } from '../lib/analyticsData';
+import { getBurnoutLevel, findScoringModel } from '../utils/burnout';
+import { formatDate, formatDisplayDate, getToday, getWeekdayNames, getWeekStart, getStoredWeekRange, parseDate } from '../utils/dates';
+import { DayDetail } from './DayDetail';
+
+const BURNOUT_COLORS = {
+  low: '#10b981',
+  moderate: '#f59e0b',
+  high: '#ef4444',
+};
+
+function completionShade(day: DayAggregate): string {
+  if (day.planned === 0) return 'bg-gray-100';
+  const ratio = day.met / day.planned;
+  if (ratio === 0) return 'bg-gray-300';
+  if (ratio < 0.5) return 'bg-emerald-200';
+  if (ratio < 1) return 'bg-emerald-400';
+  return 'bg-emerald-600';
+}
+
+export function CalendarHeatmap() {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { models: scoringModels } = useScoringModels();
+  const { dateSettings } = usePreferences();
+  const [year, setYear] = useState(() => getToday(dateSettings).getFullYear());
+  const [dataset, setDataset] = useState<AnalyticsDataset | null>(null);
+  const [showBurnout, setShowBurnout] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadYear = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      setDataset(await loadAnalyticsDataset(
+        repositories,
+        user.id,
+        new Date(year, 0, 1),
+        new Date(year, 11, 31),
+        dateSettings.weekStartsOn
+      ));
+    } catch (error) {
+      console.error('Error loading heatmap data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, repositories, year, dateSettings]);
+
+  useEffect(() => {
+    loadYear();
+  }, [loadYear]);
+
+  const today = formatDate(getToday(dateSettings));
+  const currentYear = getToday(dateSettings).getFullYear();
+  const daysByDate = new Map((dataset ? dataset.days : []).map(day => [day.date, day]));
+
+  // One column per week from the preferred start day; days outside the year stay blank
+  const weeks = eachWeekOfInterval(
+    { start: new Date(year, 0, 1), end: new Date(year, 11, 31) },
+    { weekStartsOn: dateSettings.weekStartsOn }
+  ).map(weekStart => Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)));
+
+  const dayTitle = (date: string, day: DayAggregate) => {
+    const parts = [formatDisplayDate(parseDate(date), dateSettings)];
+    parts.push(day.planned > 0 ? `${day.met}/${day.planned} goals done` : 'No goals planned');
+    if (day.checkin) parts.push(`burnout ${day.checkin.burnout_score}/10`);
+    return parts.join(' · ');
+  };
+
+  const selectedDay = selectedDate ? daysByDate.get(selectedDate) : undefined;
+  // The same week the dashboard shows for the day, including goals planned under another start day
+  const selectedWeek = selectedDate ? getStoredWeekRange(getWeekStart(parseDate(selectedDate), dateSettings)) : null;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Year at a Glance</h2>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showBurnout}
+              onChange={(e) => setShowBurnout(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>Burnout overlay</span>
+          </label>
+          <div className="inline-flex items-center rounded-lg border border-gray-200">
+            <button
+              onClick={() => setYear(year - 1)}
+              className="p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-l-lg transition-colors"
+              title="Previous year"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span className="px-2 text-sm font-medium text-gray-900">{year}</span>
+            <button
+              onClick={() => setYear(year + 1)}
+              disabled={year >= currentYear}
+              className="p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-r-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              title="Next year"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loading && !dataset ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="inline-flex gap-[3px]">
+            <div className="flex flex-col gap-[3px] mr-1 pt-4">
+              {getWeekdayNames(dateSettings).map((label, index) => (
+                <div key={index} className="h-3 text-[10px] leading-3 text-gray-400">{index % 2 === 0 && index < 6 ? label : ''}</div>
+              ))}
+            </div>
+            {weeks.map(week => {
+              const monthStart = week.find(day => day.getDate() === 1 && day.getFullYear() === year);
+              return (
+                <div key={formatDate(week[0])} className="flex flex-col gap-[3px]">
+                  <div className="h-4 text-[10px] text-gray-400 whitespace-nowrap">
+                    {monthStart && format(monthStart, 'MMM')}
+                  </div>
+                  {week.map(day => {
+                    const date = formatDate(day);
+                    const aggregate = daysByDate.get(date);
+                    if (day.getFullYear() !== year || !aggregate || date > today) {
+                      return <div key={date} className={`h-3 w-3 rounded-sm ${day.getFullYear() === year ? 'bg-gray-50' : ''}`} />;
+                    }
+
+                    const level = showBurnout && aggregate.checkin
+                      ? getBurnoutLevel(aggregate.checkin.burnout_score, findScoringModel(scoringModels, aggregate.checkin.model_version)).level
+                      : null;
+
+                    return (
+                      <button
+                        key={date}
+                        onClick={() => setSelectedDate(date)}
+                        title={dayTitle(date, aggregate)}
+                        className={`h-3 w-3 rounded-sm ${completionShade(aggregate)} hover:ring-2 hover:ring-indigo-400 transition-shadow`}
+                        style={level ? { boxShadow: `inset 0 0 0 2px ${BURNOUT_COLORS[level]}` } : undefined}
+                      />
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-500">
+        <div className="flex items-center gap-1">
+          <span>Less</span>
+          {['bg-gray-100', 'bg-gray-300', 'bg-emerald-200', 'bg-emerald-400', 'bg-emerald-600'].map(shade => (
+            <span key={shade} className={`h-3 w-3 rounded-sm ${shade}`} />
+          ))}
+          <span>More goals done</span>
+        </div>
+        {showBurnout && (
+          <div className="flex items-center gap-3">
+            {(Object.keys(BURNOUT_COLORS) as (keyof typeof BURNOUT_COLORS)[]).map(level => (
+              <span key={level} className="flex items-center gap-1">
+                <span className="h-3 w-3 rounded-sm" style={{ boxShadow: `inset 0 0 0 2px ${BURNOUT_COLORS[level]}` }} />
+                {level} burnout
+              </span>
+            ))}
+          </div>
+        )}
+        <span className="flex items-center gap-1 ml-auto">
+          <CalendarDays className="h-3.5 w-3.5" />
+          Click a day for details
+        </span>
+      </div>
+
+      {selectedDate && selectedDay && dataset && (
+        <DayDetail
+          date={selectedDate}
+          goals={dataset.goals
+            .filter(goal => selectedWeek && goal.week_start >= selectedWeek.from && goal.week_start <= selectedWeek.to)
+            .map(goal => ({
+              goal,
+              completion: dataset.completions.find(c => c.goal_id === goal.id && c.date === selectedDate) || null,
+            }))}
+          checkin={selectedDay.checkin}
+          model={findScoringModel(scoringModels, selectedDay.checkin?.model_version)}
+          onClose={() => setSelectedDate(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,98 +1,240 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Calendar, TrendingUp, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Plus, Calendar, TrendingUp, AlertCircle, CheckCircle2, Flame, CalendarClock, TrendingDown, SlidersHorizontal, Check, X, NotebookPen, CalendarPlus } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { getCurrentWeekStart, formatWeekRange, formatDate, formatDisplayDate } from '../utils/dates';
-import { calculateBurnoutScore, getBurnoutLevel, getAdaptiveGoalSuggestion } from '../utils/burnout';
+import { useRepositories } from '../hooks/useRepositories';
+import { useScoringModels } from '../hooks/useScoringModels';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Checkin } from '../lib/repositories';
+import { spawnSeriesInstances, updateGoal } from '../lib/goalPlanner';
+import { loadGoalHistories } from '../lib/goalHistory';
+import { listGoalsForWeek, getReviewForWeek } from '../lib/weekLookup';
+import { getGoalProgress, GoalProgress } from '../utils/progress';
+import { computeGoalStreaks, GoalStreaks } from '../utils/streaks';
+import { forecastBurnout, ForecastPoint } from '../utils/forecast';
+import { proposeGoalAdjustments, AdaptiveGoalInput, GoalAdjustmentProposal } from '../utils/adaptiveGoals';
+import { getWeekDays, getStoredWeekRange, getCurrentWeekStart, getCurrentTime, getToday, formatWeekRange, formatDate, formatDisplayDate, parseDate, isCurrentWeek, shiftWeek } from '../utils/dates';
+import { subDays, differenceInCalendarDays } from 'date-fns';
+import { getBurnoutLevel, getAdaptiveGoalSuggestion, findScoringModel, explainBurnoutScore } from '../utils/burnout';
 import { BurnoutCheckin } from './BurnoutCheckin';
+import { WeekNavigator } from './WeekNavigator';
+import { GoalDetail } from './GoalDetail';
+import { WeeklyReview } from './WeeklyReview';
+import { BurnoutBreakdownBar } from './BurnoutBreakdownBar';
+import { CalendarExport } from './CalendarExport';
+import type { AppLink } from '../utils/deepLinks';
 
 interface Goal {
   id: string;
   title: string;
   description: string | null;
   target_days: number;
-  completions: number;
+  progress: GoalProgress;
+  streaks: GoalStreaks;
 }
 
-interface TodayCheckin {
-  id: string;
-  stress_level: number;
-  sleep_hours: number;
-  mood_level: number;
-  time_spent_hours: number;
-  burnout_score: number;
+interface AdaptiveGoal extends AdaptiveGoalInput {
+  series_id: string | null;
+  week_start: string;
+}
+
+interface DashboardProps {
+  weekStart: Date;
+  onWeekChange: (weekStart: Date) => void;
+  link?: AppLink | null; // opened from outside the app, e.g. a calendar event
 }
 
-export function Dashboard() {
+export function Dashboard({ weekStart, onWeekChange, link }: DashboardProps) {
   const { user } = useAuth();
+  const repositories = useRepositories();
+  const { models: scoringModels, activeModel } = useScoringModels();
+  const { preferences, dateSettings, streakOptions } = usePreferences();
   const [goals, setGoals] = useState<Goal[]>([]);
-  const [todayCheckin, setTodayCheckin] = useState<TodayCheckin | null>(null);
+  const [todayCheckin, setTodayCheckin] = useState<Checkin | null>(null);
   const [showCheckin, setShowCheckin] = useState(false);
+  const [missedDates, setMissedDates] = useState<string[]>([]);
+  const [catchUpQueue, setCatchUpQueue] = useState<string[]>([]);
+  const [catchUpTotal, setCatchUpTotal] = useState(0);
+  const [latestCheckin, setLatestCheckin] = useState<Checkin | null>(null);
+  const [forecast, setForecast] = useState<ForecastPoint[]>([]);
+  const [adaptiveGoals, setAdaptiveGoals] = useState<AdaptiveGoal[]>([]);
+  const [recentScores, setRecentScores] = useState<number[]>([]);
+  const [decidedGoalIds, setDecidedGoalIds] = useState<string[]>([]);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [detailGoalId, setDetailGoalId] = useState<string | null>(null);
+  const [reviewWeek, setReviewWeek] = useState<Date | null>(null);
+  const [showReview, setShowReview] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  const weekStart = getCurrentWeekStart();
-  const today = formatDate(new Date());
+  const weekDays = useMemo(() => getWeekDays(weekStart), [weekStart]);
+  const today = formatDate(getToday(dateSettings));
 
   useEffect(() => {
-    if (user) {
-      loadDashboardData();
+    if (link?.goal) {
+      setDetailGoalId(link.goal);
+    }
+    const linkToday = formatDate(getToday(dateSettings));
+    if (link?.checkin === linkToday) {
+      setShowCheckin(true);
+    } else if (link?.checkin && link.checkin < linkToday) {
+      startCatchUp([link.checkin]);
     }
-  }, [user]);
+  }, [link, dateSettings]);
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = useCallback(async () => {
     if (!user) return;
 
     setLoading(true);
     
     try {
+      await spawnSeriesInstances(repositories, user.id, weekStart, dateSettings);
+
       // Load current week's goals with completion counts
-      const { data: goalsData, error: goalsError } = await supabase
-        .from('goals')
-        .select(`
-          id,
-          title,
-          description,
-          target_days,
-          daily_completions!inner(completed, date)
-        `)
-        .eq('user_id', user.id)
-        .eq('week_start', formatDate(weekStart));
-
-      if (goalsError) throw goalsError;
+      const goalsData = await listGoalsForWeek(repositories, user.id, weekStart);
+      const storedWeeks = getStoredWeekRange(weekStart);
+      const completionsData = await repositories.completions.listByDateRange(
+        user.id,
+        storedWeeks.from,
+        storedWeeks.lastDay
+      );
+
+      const histories = await loadGoalHistories(repositories, user.id, goalsData);
 
       // Transform goals data to include completion counts
-      const transformedGoals = goalsData?.map(goal => ({
+      const transformedGoals = goalsData.map(goal => ({
         id: goal.id,
         title: goal.title,
         description: goal.description,
         target_days: goal.target_days,
-        completions: (goal as any).daily_completions?.filter((c: any) => c.completed).length || 0,
-      })) || [];
+        progress: getGoalProgress(goal, completionsData.filter(c => c.goal_id === goal.id)),
+        streaks: computeGoalStreaks(histories.get(goal.id) || [], today, streakOptions),
+      }));
 
       setGoals(transformedGoals);
+      setAdaptiveGoals(goalsData.map(goal => ({
+        id: goal.id,
+        title: goal.title,
+        target_days: goal.target_days,
+        target_period: goal.target_period,
+        series_id: goal.series_id,
+        week_start: goal.week_start,
+        history: histories.get(goal.id) || [],
+      })));
 
-      // Load today's burnout check-in
-      const { data: checkinData, error: checkinError } = await supabase
-        .from('burnout_checkins')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('date', today)
-        .single();
-
-      if (checkinError && checkinError.code !== 'PGRST116') {
-        throw checkinError;
-      }
+      // Goals already adjusted or kept this week are not proposed again
+      const adjustments = await repositories.goalAdjustments.listByGoals(user.id, goalsData.map(goal => goal.id));
+      setDecidedGoalIds(adjustments.flatMap(adjustment => adjustment.goal_id ? [adjustment.goal_id] : []));
 
+      // Load today's burnout check-in
+      const checkinData = await repositories.checkins.getByDate(user.id, today);
       setTodayCheckin(checkinData);
+
+      // Past days of the week without a check-in
+      const weekCheckins = await repositories.checkins.listByDateRange(
+        user.id,
+        formatDate(weekStart),
+        formatDate(weekDays[weekDays.length - 1])
+      );
+      const checkedInDates = new Set(weekCheckins.map(checkin => checkin.date));
+      setMissedDates(weekDays
+        .map(day => formatDate(day))
+        .filter(date => date < today && !checkedInDates.has(date)));
+
+      // Project the coming week from the last 30 days
+      const recentCheckins = await repositories.checkins.listByDateRange(user.id, formatDate(subDays(getToday(dateSettings), 30)), today);
+      setLatestCheckin(recentCheckins[recentCheckins.length - 1] || null);
+      const weekAgo = formatDate(subDays(getToday(dateSettings), 7));
+      setRecentScores(recentCheckins.filter(checkin => checkin.date > weekAgo).map(checkin => checkin.burnout_score));
+      setForecast(forecastBurnout(
+        recentCheckins.map(checkin => ({ date: checkin.date, score: checkin.burnout_score })),
+        today
+      ));
+
+      // The review opens on the last two days of the week and stays open for last week until it is done
+      const weekend = differenceInCalendarDays(getToday(dateSettings), getCurrentWeekStart(dateSettings)) >= 5;
+      const dueWeek = weekend ? getCurrentWeekStart(dateSettings) : shiftWeek(getCurrentWeekStart(dateSettings), -1);
+      const [dueReview, dueGoals] = await Promise.all([
+        getReviewForWeek(repositories, user.id, dueWeek),
+        listGoalsForWeek(repositories, user.id, dueWeek),
+      ]);
+      setReviewWeek(!dueReview && dueGoals.length > 0 ? dueWeek : null);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
       setLoading(false);
     }
+  }, [user, repositories, weekStart, weekDays, today, dateSettings, streakOptions]);
+
+  useEffect(() => {
+    loadDashboardData();
+  }, [loadDashboardData]);
+
+  const handleCheckinComplete = (checkinData: Checkin) => {
+    if (checkinData.date === today) {
+      setTodayCheckin(checkinData);
+    }
+    setMissedDates(dates => dates.filter(date => date !== checkinData.date));
+
+    // Move on to the next missed day when catching up
+    const remaining = catchUpQueue.filter(date => date !== checkinData.date);
+    setCatchUpQueue(remaining);
+    if (remaining.length === 0) {
+      setShowCheckin(false);
+    }
   };
 
-  const handleCheckinComplete = (checkinData: TodayCheckin) => {
-    setTodayCheckin(checkinData);
+  const handleAdjustment = async (proposal: GoalAdjustmentProposal, decision: 'accepted' | 'rejected') => {
+    if (!user) return;
+
+    const goal = adaptiveGoals.find(g => g.id === proposal.goalId);
+    if (!goal) return;
+
+    setDeciding(proposal.goalId);
+
+    try {
+      if (decision === 'accepted') {
+        // Recurring goals keep the new target in the weeks that follow
+        await updateGoal(
+          repositories,
+          user.id,
+          { id: goal.id, series_id: goal.series_id, week_start: goal.week_start },
+          { target_days: proposal.toDays },
+          'future'
+        );
+      }
+
+      await repositories.goalAdjustments.create({
+        user_id: user.id,
+        goal_id: proposal.goalId,
+        week_start: formatDate(weekStart),
+        from_days: proposal.fromDays,
+        to_days: proposal.toDays,
+        reason: proposal.reason,
+        decision,
+        burnout_score: recentScores.length > 0
+          ? Math.round((recentScores.reduce((sum, score) => sum + score, 0) / recentScores.length) * 10) / 10
+          : null,
+      });
+
+      setDecidedGoalIds(ids => [...ids, proposal.goalId]);
+      if (decision === 'accepted') {
+        await loadDashboardData();
+      }
+    } catch (error) {
+      console.error('Error applying goal adjustment:', error);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const startCatchUp = (dates: string[]) => {
+    setCatchUpQueue(dates);
+    setCatchUpTotal(dates.length);
+    setShowCheckin(true);
+  };
+
+  const closeCheckin = () => {
+    setCatchUpQueue([]);
     setShowCheckin(false);
   };
 
@@ -104,17 +246,50 @@ export function Dashboard() {
     );
   }
 
-  const burnoutInfo = todayCheckin ? getBurnoutLevel(todayCheckin.burnout_score) : null;
-  const adaptiveSuggestion = todayCheckin ? getAdaptiveGoalSuggestion(todayCheckin.burnout_score) : null;
+  const checkinModel = todayCheckin ? findScoringModel(scoringModels, todayCheckin.model_version) : null;
+  const burnoutInfo = todayCheckin && checkinModel ? getBurnoutLevel(todayCheckin.burnout_score, checkinModel) : null;
+  const adaptiveSuggestion = todayCheckin && checkinModel ? getAdaptiveGoalSuggestion(todayCheckin.burnout_score, checkinModel) : null;
+  const breakdown = todayCheckin && checkinModel ? explainBurnoutScore(todayCheckin, checkinModel, todayCheckin.extras) : null;
+  const reminderDue = preferences.reminder_time !== null && getCurrentTime(dateSettings) >= preferences.reminder_time;
+
+  const proposals = isCurrentWeek(weekStart, dateSettings)
+    ? proposeGoalAdjustments(
+        adaptiveGoals.filter(goal => !decidedGoalIds.includes(goal.id)),
+        recentScores,
+        formatDate(weekStart),
+        activeModel
+      )
+    : [];
+
+  // Warn ahead of time when the forecast enters the high band and the latest check-in has not
+  const latestIsHigh = latestCheckin
+    ? getBurnoutLevel(latestCheckin.burnout_score, findScoringModel(scoringModels, latestCheckin.model_version)).level === 'high'
+    : false;
+  const forecastHigh = latestIsHigh
+    ? undefined
+    : forecast.find(point => getBurnoutLevel(point.forecast, activeModel).level === 'high');
 
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-        <p className="text-gray-600 mt-1">
-          Week of {formatWeekRange(weekStart)}
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
+          <p className="text-gray-600 mt-1">
+            Week of {formatWeekRange(weekStart)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setShowCalendarExport(true)}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white/80 backdrop-blur-sm border border-gray-200 rounded-lg shadow-sm hover:bg-gray-100 transition-colors"
+            title="Download this week as an .ics file"
+          >
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Add to calendar
+          </button>
+          <WeekNavigator weekStart={weekStart} onChange={onWeekChange} />
+        </div>
       </div>
 
       {/* Burnout Check-in Card */}
@@ -134,6 +309,18 @@ export function Dashboard() {
             </div>
             
             <p className="text-gray-700">{burnoutInfo?.message}</p>
+
+            {breakdown && (
+              <div className="max-w-md">
+                <BurnoutBreakdownBar breakdown={breakdown} />
+              </div>
+            )}
+
+            {checkinModel && checkinModel.version !== activeModel.version && (
+              <p className="text-xs text-gray-500">
+                Scored with version {checkinModel.version} of your scoring model. Updating the check-in rescores it with version {activeModel.version}.
+              </p>
+            )}
             
             {adaptiveSuggestion && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
@@ -159,7 +346,9 @@ export function Dashboard() {
               Ready for your daily check-in?
             </h3>
             <p className="text-gray-600 mb-4">
-              Take a moment to reflect on your wellness today
+              {reminderDue
+                ? `It's past your ${preferences.reminder_time} check-in time. Take a moment to reflect on your wellness today`
+                : 'Take a moment to reflect on your wellness today'}
             </p>
             <button
               onClick={() => setShowCheckin(true)}
@@ -171,10 +360,131 @@ export function Dashboard() {
         )}
       </div>
 
+      {/* Weekly Review Prompt */}
+      {reviewWeek && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="flex items-start space-x-3">
+              <NotebookPen className="h-5 w-5 text-indigo-600 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-indigo-900">
+                  Time to review {isCurrentWeek(reviewWeek, dateSettings) ? 'this week' : 'last week'}
+                </h3>
+                <p className="text-sm text-indigo-800 mt-1">
+                  Look back at {formatWeekRange(reviewWeek)}, note what worked and decide what to carry into next week.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setShowReview(true)}
+              className="shrink-0 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors"
+            >
+              Start review
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Burnout Forecast Warning */}
+      {forecastHigh && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6">
+          <div className="flex items-start space-x-3">
+            <TrendingDown className="h-5 w-5 text-red-600 mt-0.5" />
+            <div>
+              <h3 className="font-semibold text-red-900">Burnout is heading toward high</h3>
+              <p className="text-sm text-red-800 mt-1">
+                Based on your recent check-ins, your score is projected to reach {forecastHigh.forecast}/10
+                by {formatDisplayDate(parseDate(forecastHigh.date), dateSettings)}. Consider lightening this week's goals
+                and planning some rest before it gets there.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Adaptive Goal Proposals */}
+      {proposals.length > 0 && (
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Suggested Goal Adjustments</h2>
+            <SlidersHorizontal className="h-5 w-5 text-gray-500" />
+          </div>
+
+          <div className="space-y-3">
+            {proposals.map(proposal => (
+              <div
+                key={proposal.goalId}
+                className="flex flex-wrap items-center justify-between gap-3 bg-blue-50 border border-blue-200 rounded-lg p-4"
+              >
+                <div className="flex-1 min-w-[12rem]">
+                  <p className="font-medium text-gray-900">
+                    {proposal.title}: {proposal.fromDays} → {proposal.toDays} days
+                  </p>
+                  <p className="text-sm text-blue-800 mt-1">{proposal.reason}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleAdjustment(proposal, 'accepted')}
+                    disabled={deciding !== null}
+                    className="inline-flex items-center px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => handleAdjustment(proposal, 'rejected')}
+                    disabled={deciding !== null}
+                    className="inline-flex items-center px-3 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Keep
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Missed Check-ins */}
+      {missedDates.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start space-x-3">
+              <CalendarClock className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-amber-900">
+                  {missedDates.length} missed check-in{missedDates.length !== 1 ? 's' : ''} {isCurrentWeek(weekStart, dateSettings) ? 'this week' : 'that week'}
+                </h3>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {missedDates.map(date => (
+                    <button
+                      key={date}
+                      onClick={() => startCatchUp([date])}
+                      className="px-2 py-1 text-xs font-medium text-amber-800 bg-amber-100 hover:bg-amber-200 rounded-md transition-colors"
+                    >
+                      {formatDisplayDate(parseDate(date), dateSettings)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={() => startCatchUp(missedDates)}
+              className="shrink-0 bg-amber-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors"
+            >
+              Catch up
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Goals Overview */}
       <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-gray-900">This Week's Goals</h2>
+          <h2 className="text-xl font-semibold text-gray-900">
+            {isCurrentWeek(weekStart, dateSettings) ? "This Week's Goals" : `Goals for ${formatWeekRange(weekStart)}`}
+          </h2>
           <TrendingUp className="h-5 w-5 text-gray-500" />
         </div>
 
@@ -193,9 +503,11 @@ export function Dashboard() {
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {goals.map((goal) => (
-              <div
+              <button
                 key={goal.id}
-                className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow"
+                type="button"
+                onClick={() => setDetailGoalId(goal.id)}
+                className="text-left bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow"
               >
                 <h3 className="font-medium text-gray-900 mb-2">{goal.title}</h3>
                 {goal.description && (
@@ -204,30 +516,75 @@ export function Dashboard() {
                 
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-500">
-                    {goal.completions}/{goal.target_days} days
+                    {goal.progress.label}
                   </div>
                   <div className="w-16 bg-gray-200 rounded-full h-2">
                     <div
                       className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
                       style={{
-                        width: `${Math.min(100, (goal.completions / goal.target_days) * 100)}%`,
+                        width: `${goal.progress.ratio * 100}%`,
                       }}
                     />
                   </div>
                 </div>
-              </div>
+
+                {(goal.streaks.daily.longest > 0 || goal.streaks.weekly.longest > 0) && (
+                  <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100 text-xs text-gray-500">
+                    <span className={`flex items-center ${goal.streaks.daily.current > 0 ? 'text-orange-600 font-medium' : ''}`}>
+                      <Flame className="h-3.5 w-3.5 mr-1" />
+                      {goal.streaks.daily.current}-day streak
+                    </span>
+                    <span title={`Best: ${goal.streaks.daily.longest} days, ${goal.streaks.weekly.longest} weeks`}>
+                      {goal.streaks.weekly.current} wk{goal.streaks.weekly.current !== 1 ? 's' : ''} on target · best {goal.streaks.daily.longest}d
+                    </span>
+                  </div>
+                )}
+              </button>
             ))}
           </div>
         )}
       </div>
 
+      {/* Weekly Review Modal */}
+      {showReview && reviewWeek && (
+        <WeeklyReview
+          weekStart={reviewWeek}
+          onClose={() => setShowReview(false)}
+          onSaved={() => {
+            setShowReview(false);
+            setReviewWeek(null);
+            loadDashboardData();
+          }}
+        />
+      )}
+
+      {/* Calendar Export Modal */}
+      {showCalendarExport && (
+        <CalendarExport weekStart={weekStart} onClose={() => setShowCalendarExport(false)} />
+      )}
+
+      {/* Goal Detail Modal */}
+      {detailGoalId && (
+        <GoalDetail goalId={detailGoalId} onClose={() => setDetailGoalId(null)} />
+      )}
+
       {/* Burnout Check-in Modal */}
       {showCheckin && (
-        <BurnoutCheckin
-          onComplete={handleCheckinComplete}
-          onCancel={() => setShowCheckin(false)}
-          existingCheckin={todayCheckin}
-        />
+        catchUpQueue.length > 0 ? (
+          <BurnoutCheckin
+            key={catchUpQueue[0]}
+            date={catchUpQueue[0]}
+            catchUp={catchUpTotal > 1 ? { index: catchUpTotal - catchUpQueue.length, total: catchUpTotal } : undefined}
+            onComplete={handleCheckinComplete}
+            onCancel={closeCheckin}
+          />
+        ) : (
+          <BurnoutCheckin
+            onComplete={handleCheckinComplete}
+            onCancel={closeCheckin}
+            existingCheckin={todayCheckin}
+          />
+        )
       )}
     </div>
   );
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Download, FileArchive, FileJson } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import { buildExportBundle, exportBundleToJson, exportBundleToZip } from '../lib/dataExport';
+import { formatDate, getToday } from '../utils/dates';
+import { downloadFile } from '../utils/download';
+
+type ExportFormat = 'json' | 'zip';
+
+export function DataExport() {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { dateSettings } = usePreferences();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState(formatDate(getToday(dateSettings)));
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user) return;
+
+    if (from && to && from > to) {
+      setError('The start date must be on or before the end date.');
+      return;
+    }
+
+    setExporting(format);
+    setError('');
+    setMessage('');
+
+    try {
+      const bundle = await buildExportBundle(repositories, user, from || null, to || null);
+      const filename = `goalsync-export-${formatDate(getToday(dateSettings))}`;
+
+      if (format === 'json') {
+        downloadFile(`${filename}.json`, exportBundleToJson(bundle), 'application/json');
+      } else {
+        downloadFile(`${filename}.zip`, exportBundleToZip(bundle), 'application/zip');
+      }
+
+      const { goals, daily_completions, burnout_checkins } = bundle.tables;
+      setMessage(
+        `Exported ${goals.length} goals, ${daily_completions.length} completions and ` +
+        `${burnout_checkins.length} check-ins.`
+      );
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      setError('Could not export your data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">Export Data</h2>
+        <Download className="h-5 w-5 text-gray-500" />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Download your profile, goals, completions and check-ins. Choose a single JSON file, or a
+        zip with one CSV per table for spreadsheets. Leave the start date empty to export everything.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2 mb-6">
+        <label className="block">
+          <span className="block text-sm text-gray-700 mb-1">From</span>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm text-gray-700 mb-1">To</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => handleExport('json')}
+          disabled={exporting !== null}
+          className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <FileJson className="h-4 w-4 mr-2" />
+          {exporting === 'json' ? 'Exporting...' : 'Download JSON'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport('zip')}
+          disabled={exporting !== null}
+          className="inline-flex items-center px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <FileArchive className="h-4 w-4 mr-2" />
+          {exporting === 'zip' ? 'Exporting...' : 'Download CSV (zip)'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { ImportWizard } from './ImportWizard';
+
+export function DataImport() {
+  const [showWizard, setShowWizard] = useState(false);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">Import Data</h2>
+        <Upload className="h-5 w-5 text-gray-500" />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Bring your history from Loop Habit Tracker, another tracker's CSV, or a GoalSync export.
+        You will see what gets added before anything is saved, and days you already recorded are
+        never overwritten.
+      </p>
+
+      <button
+        type="button"
+        onClick={() => setShowWizard(true)}
+        className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        Import from a file
+      </button>
+
+      {showWizard && <ImportWizard onClose={() => setShowWizard(false)} />}
+    </div>
+  );
+}
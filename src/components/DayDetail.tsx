@@ -0,0 +1,105 @@
+import { X, CheckCircle2, Circle, MinusCircle } from 'lucide-react';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Goal, Completion, Checkin } from '../lib/repositories';
+import { getBurnoutLevel, BurnoutScoringModel } from '../utils/burnout';
+import { formatDisplayDate, parseDate } from '../utils/dates';
+import { WELLNESS_METRICS, readMetricValues } from '../utils/metrics';
+import { formatTarget, isDayMet } from '../utils/progress';
+
+export interface DayGoal {
+  goal: Goal;
+  completion: Completion | null; // null when the day was not planned for the goal
+}
+
+interface DayDetailProps {
+  date: string;
+  goals: DayGoal[];
+  checkin: Checkin | null;
+  model: BurnoutScoringModel;
+  onClose: () => void;
+}
+
+export function DayDetail({ date, goals, checkin, model, onClose }: DayDetailProps) {
+  const { dateSettings } = usePreferences();
+  const burnoutInfo = checkin ? getBurnoutLevel(checkin.burnout_score, model) : null;
+  const values = checkin ? readMetricValues(checkin) : {};
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">{formatDisplayDate(parseDate(date), dateSettings)}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Goals</h3>
+          {goals.length > 0 ? (
+            <ul className="space-y-2 mb-6">
+              {goals.map(({ goal, completion }) => {
+                const met = completion ? isDayMet(goal, completion) : false;
+                return (
+                  <li key={goal.id} className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200">
+                    {!completion ? (
+                      <MinusCircle className="h-5 w-5 mt-0.5 text-gray-300 shrink-0" />
+                    ) : met ? (
+                      <CheckCircle2 className="h-5 w-5 mt-0.5 text-green-600 shrink-0" />
+                    ) : (
+                      <Circle className="h-5 w-5 mt-0.5 text-gray-400 shrink-0" />
+                    )}
+                    <div className="flex-1">
+                      <p className="text-gray-900">{goal.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatTarget(goal)}
+                        {' · '}
+                        {!completion
+                          ? 'Not planned'
+                          : met
+                            ? 'Done'
+                            : completion.value
+                              ? `Logged ${completion.value}${goal.unit ? ` ${goal.unit}` : ''}`
+                              : 'Missed'}
+                      </p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 mb-6">No goals this week</p>
+          )}
+
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Check-in</h3>
+          {checkin && burnoutInfo ? (
+            <div className="space-y-3">
+              <div className={`rounded-lg p-4 ${burnoutInfo.bgColor}`}>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">Burnout Score</span>
+                  <span className={`text-lg font-bold ${burnoutInfo.color}`}>
+                    {checkin.burnout_score}/10
+                  </span>
+                </div>
+              </div>
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                {WELLNESS_METRICS.filter(metric => typeof values[metric.key] === 'number').map(metric => (
+                  <div key={metric.key} className="flex justify-between p-2 bg-gray-50 rounded-lg">
+                    <dt className="text-gray-600">{metric.label}</dt>
+                    <dd className="font-medium text-gray-900">{values[metric.key]}{metric.unit}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No check-in for this day</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
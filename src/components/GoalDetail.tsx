@@ -0,0 +1,249 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, Flame, Repeat, Target, Check } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { addDays, format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Goal, GoalAdjustment } from '../lib/repositories';
+import { loadGoalHistories } from '../lib/goalHistory';
+import { computeGoalStats, GoalStats } from '../utils/goalStats';
+import { computeGoalStreaks, GoalStreaks } from '../utils/streaks';
+import { formatDate, getToday, getWeekdayNames, parseDate } from '../utils/dates';
+import { formatTarget } from '../utils/progress';
+
+interface GoalDetailProps {
+  goalId: string;
+  onClose: () => void;
+}
+
+export function GoalDetail({ goalId, onClose }: GoalDetailProps) {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { dateSettings, streakOptions } = usePreferences();
+  const [goal, setGoal] = useState<Goal | null>(null);
+  const [stats, setStats] = useState<GoalStats | null>(null);
+  const [streaks, setStreaks] = useState<GoalStreaks | null>(null);
+  const [adjustments, setAdjustments] = useState<GoalAdjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadGoalDetail = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const goalData = await repositories.goals.get(user.id, goalId);
+      setGoal(goalData);
+      if (!goalData) return;
+
+      const today = formatDate(getToday(dateSettings));
+      const history = (await loadGoalHistories(repositories, user.id, [goalData])).get(goalData.id) || [];
+      const weekStarts = history.map(week => week.week_start).sort();
+      const checkins = weekStarts.length > 0
+        ? await repositories.checkins.listByDateRange(
+          user.id,
+          weekStarts[0],
+          formatDate(addDays(parseDate(weekStarts[weekStarts.length - 1]), 6))
+        )
+        : [];
+
+      // Suggestions are logged against the weekly instance they were made for
+      const instances = goalData.series_id ? await repositories.goals.listBySeries(user.id, goalData.series_id) : [goalData];
+      setAdjustments(await repositories.goalAdjustments.listByGoals(user.id, instances.map(instance => instance.id)));
+
+      setStats(computeGoalStats(history, checkins, today, dateSettings.weekStartsOn));
+      setStreaks(computeGoalStreaks(history, today, streakOptions));
+    } catch (error) {
+      console.error('Error loading goal detail:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, repositories, goalId, dateSettings, streakOptions]);
+
+  useEffect(() => {
+    loadGoalDetail();
+  }, [loadGoalDetail]);
+
+  const historyData = stats
+    ? stats.weeks.map(week => ({ week_start: week.week_start, completion: Math.round(week.progress.ratio * 100) }))
+    : [];
+  const ratedWeekdays = stats ? stats.weekdays.filter(day => day.rate !== null) : [];
+  const weakestRate = ratedWeekdays.length > 1 ? Math.min(...ratedWeekdays.map(day => day.rate!)) : null;
+  const weekdayNames = getWeekdayNames(dateSettings);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{goal ? goal.title : 'Goal'}</h2>
+              {goal && (
+                <p className="flex items-center text-sm text-gray-500 mt-1">
+                  <Target className="h-4 w-4 mr-1" />
+                  {formatTarget(goal)}
+                  {goal.series_id && (
+                    <span className="inline-flex items-center ml-3 text-indigo-600">
+                      <Repeat className="h-3.5 w-3.5 mr-1" />
+                      Repeats weekly
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : !goal || !stats || !streaks ? (
+            <p className="text-gray-500">This goal could not be found.</p>
+          ) : (
+            <div className="space-y-6">
+              {/* Summary */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="p-3 bg-orange-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Current streak</p>
+                  <p className="flex items-center text-lg font-bold text-orange-600">
+                    <Flame className="h-4 w-4 mr-1" />
+                    {streaks.daily.current}d
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Longest streak</p>
+                  <p className="text-lg font-bold text-gray-900">{streaks.daily.longest}d</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Weeks on target</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {streaks.weekly.current}
+                    <span className="text-xs font-normal text-gray-500"> (best {streaks.weekly.longest})</span>
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-600">Days done</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {stats.daysMet}
+                    <span className="text-xs font-normal text-gray-500"> of {stats.daysElapsed}</span>
+                  </p>
+                </div>
+              </div>
+
+              {/* Completion history */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Completion by week</h3>
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={historyData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                      <XAxis
+                        dataKey="week_start"
+                        tickFormatter={(date) => format(parseDate(date), 'MMM d')}
+                        stroke="#6b7280"
+                      />
+                      <YAxis domain={[0, 100]} stroke="#6b7280" />
+                      <Tooltip
+                        labelFormatter={(date) => `Week of ${format(parseDate(date), 'MMM d, yyyy')}`}
+                        formatter={(value: number) => [`${value}%`, 'Completion']}
+                      />
+                      <Bar dataKey="completion" fill="#10b981" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              {/* Weekday hit-rates */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Hit rate by weekday</h3>
+                <div className="space-y-2">
+                  {stats.weekdays.map(day => (
+                    <div key={day.weekday} className="flex items-center space-x-3 text-sm">
+                      <span className="w-10 text-gray-600">{weekdayNames[day.weekday]}</span>
+                      <div className="flex-1 bg-gray-200 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full ${day.rate !== null && day.rate === weakestRate ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                          style={{ width: `${Math.round((day.rate || 0) * 100)}%` }}
+                        />
+                      </div>
+                      <span className="w-20 text-right text-gray-700">
+                        {day.rate === null ? '—' : `${Math.round(day.rate * 100)}%`}
+                        <span className="text-xs text-gray-400"> ({day.met}/{day.elapsed})</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                {weakestRate !== null && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Most often missed on {stats.weekdays.filter(day => day.rate === weakestRate).map(day => weekdayNames[day.weekday]).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Burnout on done vs missed days */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Burnout on done vs. missed days</h3>
+                {stats.burnout.metAvg !== null && stats.burnout.missedAvg !== null ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="p-3 bg-green-50 rounded-lg">
+                      <p className="text-xs text-gray-600">Days done ({stats.burnout.metDays})</p>
+                      <p className="text-lg font-bold text-green-700">{stats.burnout.metAvg.toFixed(1)}/10</p>
+                    </div>
+                    <div className="p-3 bg-red-50 rounded-lg">
+                      <p className="text-xs text-gray-600">Days missed ({stats.burnout.missedDays})</p>
+                      <p className="text-lg font-bold text-red-700">{stats.burnout.missedAvg.toFixed(1)}/10</p>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    Check in on both done and missed days to compare burnout
+                  </p>
+                )}
+              </div>
+
+              {/* Suggested target changes */}
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Suggested target changes</h3>
+                {adjustments.length > 0 ? (
+                  <ul className="space-y-2">
+                    {adjustments.map(adjustment => (
+                      <li key={adjustment.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900">
+                            {adjustment.from_days} → {adjustment.to_days} days/week
+                          </span>
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            adjustment.decision === 'accepted' ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'
+                          }`}>
+                            {adjustment.decision === 'accepted' ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+                            {adjustment.decision === 'accepted' ? 'Accepted' : 'Kept target'}
+                          </span>
+                        </div>
+                        <p className="text-gray-600 mt-1">{adjustment.reason}</p>
+                        <p className="text-xs text-gray-400 mt-1">
+                          Week of {format(parseDate(adjustment.week_start), 'MMM d, yyyy')}
+                          {adjustment.burnout_score !== null && ` · burnout ${adjustment.burnout_score}/10`}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    No target changes have been suggested for this goal yet
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { X, Repeat } from 'lucide-react';
+import { usePreferences } from '../hooks/usePreferences';
+import type { EditScope } from '../lib/goalPlanner';
+import { UNIT_SUGGESTIONS } from '../utils/preferences';
+
+const MAX_TITLE_LENGTH = 100;
+
+export interface GoalEditorValues {
+  title: string;
+  description: string | null;
+  target_days: number;
+  unit: string | null;
+  target_amount: number | null;
+  target_period: 'daily' | 'weekly' | null;
+}
+
+interface GoalEditorProps {
+  goal: GoalEditorValues & { completedDays: number };
+  isRecurring: boolean;
+  onSave: (values: GoalEditorValues, scope: EditScope) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function GoalEditor({ goal, isRecurring, onSave, onCancel }: GoalEditorProps) {
+  const { preferences } = usePreferences();
+  const [title, setTitle] = useState(goal.title);
+  const [description, setDescription] = useState(goal.description || '');
+  const [targetDays, setTargetDays] = useState(goal.target_days);
+  const [targetAmount, setTargetAmount] = useState(goal.target_amount);
+  const [unit, setUnit] = useState(goal.unit || '');
+  const [targetPeriod, setTargetPeriod] = useState(goal.target_period || 'daily');
+  const [scope, setScope] = useState<EditScope>('week');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      setError('Please give your goal a title.');
+      return;
+    }
+    if (trimmedTitle.length > MAX_TITLE_LENGTH) {
+      setError(`Titles can be at most ${MAX_TITLE_LENGTH} characters.`);
+      return;
+    }
+    if (targetDays < 1 || targetDays > 7) {
+      setError('Target days must be between 1 and 7.');
+      return;
+    }
+    if (targetAmount !== null && !(targetAmount > 0)) {
+      setError('The target amount must be greater than zero.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      await onSave({
+        title: trimmedTitle,
+        description: description.trim() || null,
+        target_days: targetDays,
+        unit: targetAmount !== null ? unit.trim() || null : null,
+        target_amount: targetAmount,
+        target_period: targetAmount !== null ? targetPeriod : null,
+      }, scope);
+    } catch (err) {
+      console.error('Error updating goal:', err);
+      setError('Could not save your changes. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Edit Goal</h2>
+            <button
+              onClick={onCancel}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Goal Title
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={MAX_TITLE_LENGTH}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description (optional)
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                rows={2}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Target Days per Week
+              </label>
+              <select
+                value={targetDays}
+                onChange={(e) => setTargetDays(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {[1, 2, 3, 4, 5, 6, 7].map(days => (
+                  <option key={days} value={days}>
+                    {days} day{days !== 1 ? 's' : ''} per week
+                  </option>
+                ))}
+              </select>
+              {targetDays < goal.completedDays && (
+                <p className="text-xs text-amber-700 mt-1">
+                  You've already completed {goal.completedDays} days this week, so this goal will show as met.
+                </p>
+              )}
+            </div>
+
+            {targetAmount !== null && (
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Target
+                  </label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step="any"
+                    value={targetAmount}
+                    onChange={(e) => setTargetAmount(Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Unit
+                  </label>
+                  <input
+                    type="text"
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    list="edit-goal-units"
+                  />
+                  <datalist id="edit-goal-units">
+                    {UNIT_SUGGESTIONS[preferences.units].map(suggestion => <option key={suggestion} value={suggestion} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Per
+                  </label>
+                  <select
+                    value={targetPeriod}
+                    onChange={(e) => setTargetPeriod(e.target.value as 'daily' | 'weekly')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    <option value="daily">Day</option>
+                    <option value="weekly">Week</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {isRecurring && (
+              <fieldset className="bg-purple-50 border border-purple-200 rounded-lg p-3 space-y-2">
+                <legend className="flex items-center text-sm font-medium text-purple-900 px-1">
+                  <Repeat className="h-4 w-4 mr-1" />
+                  This is a weekly habit
+                </legend>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="scope"
+                    checked={scope === 'week'}
+                    onChange={() => setScope('week')}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Change this week only</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="scope"
+                    checked={scope === 'future'}
+                    onChange={() => setScope('future')}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Change this and all future weeks</span>
+                </label>
+              </fieldset>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,116 +1,146 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Check, X, Target } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Edit2, Trash2, Check, Target, Copy, CalendarClock, Repeat, Pause, Play, Square, BarChart3 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { getCurrentWeekStart, getWeekDays, formatDate, formatDisplayDate } from '../utils/dates';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import type { GoalSeries } from '../lib/repositories';
+import { createGoalForWeek, spawnSeriesInstances, endSeries, updateGoal, EditScope } from '../lib/goalPlanner';
+import { listGoalsForWeek } from '../lib/weekLookup';
+import { getCurrentWeekStart, getStoredWeekRange, getToday, getWeekDays, formatDate, formatDisplayDate, formatWeekRange, shiftWeek, isCurrentWeek, parseDate } from '../utils/dates';
+import { UNIT_SUGGESTIONS } from '../utils/preferences';
+import { getGoalProgress, isDayMet, isQuantitative, formatTarget, DayEntry } from '../utils/progress';
+import { WeekNavigator } from './WeekNavigator';
+import { GoalEditor, GoalEditorValues } from './GoalEditor';
+import { GoalDetail } from './GoalDetail';
 
 interface Goal {
   id: string;
   title: string;
   description: string | null;
   target_days: number;
-  completions: { [date: string]: boolean };
+  unit: string | null;
+  target_amount: number | null;
+  target_period: 'daily' | 'weekly' | null;
+  series_id: string | null;
+  week_start: string;
+  completions: { [date: string]: DayEntry };
 }
 
-export function GoalsManager() {
+const EMPTY_GOAL_FORM = {
+  title: '',
+  description: '',
+  target_days: 5,
+  measure: 'days' as 'days' | 'amount',
+  unit: '',
+  target_amount: 1,
+  target_period: 'daily' as 'daily' | 'weekly',
+  repeat: false,
+};
+
+interface GoalsManagerProps {
+  weekStart: Date;
+  onWeekChange: (weekStart: Date) => void;
+}
+
+export function GoalsManager({ weekStart, onWeekChange }: GoalsManagerProps) {
   const { user } = useAuth();
+  const repositories = useRepositories();
+  const { preferences, dateSettings } = usePreferences();
+  const emptyGoalForm = { ...EMPTY_GOAL_FORM, target_days: preferences.default_target_days };
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [series, setSeries] = useState<GoalSeries[]>([]);
   const [showNewGoalForm, setShowNewGoalForm] = useState(false);
-  const [newGoal, setNewGoal] = useState({
-    title: '',
-    description: '',
-    target_days: 5,
-  });
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [detailGoalId, setDetailGoalId] = useState<string | null>(null);
+  const [newGoal, setNewGoal] = useState(emptyGoalForm);
   const [loading, setLoading] = useState(true);
 
-  const weekStart = getCurrentWeekStart();
-  const weekDays = getWeekDays(weekStart);
+  const isPlanning = weekStart > getCurrentWeekStart(dateSettings);
 
-  useEffect(() => {
-    if (user) {
-      loadGoals();
-    }
-  }, [user]);
-
-  const loadGoals = async () => {
+  const loadGoals = useCallback(async () => {
     if (!user) return;
 
     setLoading(true);
     
     try {
+      // Recurring goals get their instance for this week before it is listed
+      await spawnSeriesInstances(repositories, user.id, weekStart, dateSettings);
+
       // Load goals for current week
-      const { data: goalsData, error: goalsError } = await supabase
-        .from('goals')
-        .select(`
-          id,
-          title,
-          description,
-          target_days,
-          daily_completions(date, completed)
-        `)
-        .eq('user_id', user.id)
-        .eq('week_start', formatDate(weekStart));
-
-      if (goalsError) throw goalsError;
+      const goalsData = await listGoalsForWeek(repositories, user.id, weekStart);
+      const storedWeeks = getStoredWeekRange(weekStart);
+      const completionsData = await repositories.completions.listByDateRange(
+        user.id,
+        storedWeeks.from,
+        storedWeeks.lastDay
+      );
 
       // Transform goals data
-      const transformedGoals = goalsData?.map(goal => {
-        const completions: { [date: string]: boolean } = {};
-        (goal as any).daily_completions?.forEach((completion: any) => {
-          completions[completion.date] = completion.completed;
-        });
+      const transformedGoals = goalsData.map(goal => {
+        const completions: { [date: string]: DayEntry } = {};
+        completionsData
+          .filter(completion => completion.goal_id === goal.id)
+          .forEach(completion => {
+            completions[completion.date] = {
+              completed: completion.completed,
+              value: completion.value ?? null,
+            };
+          });
 
         return {
           id: goal.id,
           title: goal.title,
           description: goal.description,
           target_days: goal.target_days,
+          unit: goal.unit ?? null,
+          target_amount: goal.target_amount ?? null,
+          target_period: goal.target_period ?? null,
+          series_id: goal.series_id,
+          week_start: goal.week_start,
           completions,
         };
-      }) || [];
+      });
 
       setGoals(transformedGoals);
+      setSeries(await repositories.goalSeries.list(user.id));
     } catch (error) {
       console.error('Error loading goals:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, repositories, weekStart, dateSettings]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
 
   const handleCreateGoal = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
     try {
-      const { data: goalData, error: goalError } = await supabase
-        .from('goals')
-        .insert({
+      const isAmount = newGoal.measure === 'amount';
+      const draft = {
+        title: newGoal.title,
+        description: newGoal.description || null,
+        target_days: newGoal.target_days,
+        unit: isAmount ? newGoal.unit.trim() || null : null,
+        target_amount: isAmount ? newGoal.target_amount : null,
+        target_period: isAmount ? newGoal.target_period : null,
+      };
+
+      if (newGoal.repeat) {
+        const createdSeries = await repositories.goalSeries.create({
           user_id: user.id,
-          title: newGoal.title,
-          description: newGoal.description || null,
-          target_days: newGoal.target_days,
-          week_start: formatDate(weekStart),
-        })
-        .select()
-        .single();
-
-      if (goalError) throw goalError;
-
-      // Create daily completion records for the week
-      const completionRecords = weekDays.map(day => ({
-        goal_id: goalData.id,
-        user_id: user.id,
-        date: formatDate(day),
-        completed: false,
-      }));
-
-      const { error: completionsError } = await supabase
-        .from('daily_completions')
-        .insert(completionRecords);
-
-      if (completionsError) throw completionsError;
-
-      setNewGoal({ title: '', description: '', target_days: 5 });
+          ...draft,
+          start_week: formatDate(weekStart),
+        });
+        await createGoalForWeek(repositories, user.id, weekStart, { ...draft, series_id: createdSeries.id });
+      } else {
+        await createGoalForWeek(repositories, user.id, weekStart, draft);
+      }
+
+      setNewGoal(emptyGoalForm);
       setShowNewGoalForm(false);
       loadGoals();
     } catch (error) {
@@ -118,18 +148,36 @@ export function GoalsManager() {
     }
   };
 
-  const handleToggleCompletion = async (goalId: string, date: string, currentStatus: boolean) => {
+  const handleCopyPreviousWeek = async () => {
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('daily_completions')
-        .update({ completed: !currentStatus })
-        .eq('goal_id', goalId)
-        .eq('user_id', user.id)
-        .eq('date', date);
+      const previousGoals = await listGoalsForWeek(repositories, user.id, shiftWeek(weekStart, -1));
+      const existingTitles = new Set(goals.map(goal => goal.title));
 
-      if (error) throw error;
+      // Recurring goals carry forward on their own
+      for (const goal of previousGoals.filter(goal => !goal.series_id && !existingTitles.has(goal.title))) {
+        await createGoalForWeek(repositories, user.id, weekStart, {
+          title: goal.title,
+          description: goal.description,
+          target_days: goal.target_days,
+          unit: goal.unit,
+          target_amount: goal.target_amount,
+          target_period: goal.target_period,
+        });
+      }
+
+      loadGoals();
+    } catch (error) {
+      console.error('Error copying goals:', error);
+    }
+  };
+
+  const handleToggleCompletion = async (goalId: string, date: string, currentStatus: boolean) => {
+    if (!user) return;
+
+    try {
+      await repositories.completions.setCompleted(user.id, goalId, date, !currentStatus);
 
       // Update local state
       setGoals(goals.map(goal => 
@@ -138,7 +186,7 @@ export function GoalsManager() {
               ...goal,
               completions: {
                 ...goal.completions,
-                [date]: !currentStatus,
+                [date]: { ...goal.completions[date], completed: !currentStatus },
               },
             }
           : goal
@@ -148,24 +196,95 @@ export function GoalsManager() {
     }
   };
 
-  const handleDeleteGoal = async (goalId: string) => {
-    if (!user || !confirm('Are you sure you want to delete this goal?')) return;
+  const handleRecordValue = async (goal: Goal, date: string, rawValue: string) => {
+    if (!user) return;
+
+    const value = rawValue.trim() === '' ? null : Math.max(0, Number(rawValue));
+    if (value !== null && Number.isNaN(value)) return;
+    if (value === (goal.completions[date]?.value ?? null)) return;
+
+    const completed = isDayMet(goal, { completed: false, value });
+
+    try {
+      await repositories.completions.setValue(user.id, goal.id, date, value, completed);
+
+      setGoals(goals.map(g =>
+        g.id === goal.id
+          ? { ...g, completions: { ...g.completions, [date]: { completed, value } } }
+          : g
+      ));
+    } catch (error) {
+      console.error('Error recording amount:', error);
+    }
+  };
+
+  const handleDeleteGoal = async (goal: Goal) => {
+    const goalSeries = series.find(s => s.id === goal.series_id);
+    const message = goalSeries
+      ? 'Remove this habit from this week only? It will keep repeating in other weeks.'
+      : 'Are you sure you want to delete this goal?';
+    if (!user || !confirm(message)) return;
 
     try {
-      const { error } = await supabase
-        .from('goals')
-        .delete()
-        .eq('id', goalId)
-        .eq('user_id', user.id);
+      await repositories.goals.remove(user.id, goal.id);
 
-      if (error) throw error;
+      // Keep the series from spawning this week's instance again
+      if (goalSeries) {
+        const updatedSeries = await repositories.goalSeries.update(user.id, goalSeries.id, {
+          skipped_weeks: [...goalSeries.skipped_weeks, formatDate(weekStart)],
+        });
+        setSeries(series.map(s => (s.id === updatedSeries.id ? updatedSeries : s)));
+      }
 
-      setGoals(goals.filter(goal => goal.id !== goalId));
+      setGoals(goals.filter(g => g.id !== goal.id));
     } catch (error) {
       console.error('Error deleting goal:', error);
     }
   };
 
+  const handleUpdateGoal = async (values: GoalEditorValues, scope: EditScope) => {
+    if (!user || !editingGoal) return;
+
+    await updateGoal(repositories, user.id, {
+      id: editingGoal.id,
+      series_id: editingGoal.series_id,
+      week_start: editingGoal.week_start,
+    }, values, scope);
+
+    setGoals(goals.map(goal => (goal.id === editingGoal.id ? { ...goal, ...values } : goal)));
+    setEditingGoal(null);
+    if (scope === 'future') {
+      setSeries(await repositories.goalSeries.list(user.id));
+    }
+  };
+
+  const handleSetSeriesStatus = async (target: GoalSeries, status: 'active' | 'paused') => {
+    if (!user) return;
+
+    try {
+      await repositories.goalSeries.update(user.id, target.id, { status });
+      loadGoals();
+    } catch (error) {
+      console.error('Error updating recurring goal:', error);
+    }
+  };
+
+  const handleEndSeries = async (target: GoalSeries) => {
+    if (!user || !confirm(`Stop repeating "${target.title}"? Past weeks keep their history.`)) return;
+
+    try {
+      // The viewed week keeps its instance; weeks planned after it are removed.
+      // History up to the current week is never deleted.
+      const currentWeekStart = getCurrentWeekStart(dateSettings);
+      await endSeries(repositories, user.id, target, weekStart > currentWeekStart ? weekStart : currentWeekStart);
+      loadGoals();
+    } catch (error) {
+      console.error('Error ending recurring goal:', error);
+    }
+  };
+
+  const openSeries = series.filter(s => s.status !== 'ended');
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -184,15 +303,52 @@ export function GoalsManager() {
             Track your progress day by day
           </p>
         </div>
-        <button
-          onClick={() => setShowNewGoalForm(true)}
-          className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Goal
-        </button>
+        <div className="flex items-center space-x-3">
+          {isCurrentWeek(weekStart, dateSettings) && (
+            <button
+              onClick={() => onWeekChange(shiftWeek(weekStart, 1))}
+              className="inline-flex items-center px-4 py-2 text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-lg font-medium transition-colors"
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Plan Next Week
+            </button>
+          )}
+          <button
+            onClick={() => setShowNewGoalForm(true)}
+            className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Goal
+          </button>
+        </div>
       </div>
 
+      <WeekNavigator weekStart={weekStart} onChange={onWeekChange} />
+
+      {/* Planning Banner */}
+      {isPlanning && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 flex items-center justify-between">
+          <div className="flex items-start">
+            <CalendarClock className="h-5 w-5 text-indigo-600 mt-0.5 mr-3 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-indigo-900">
+                Planning the week of {formatWeekRange(weekStart)}
+              </h3>
+              <p className="text-sm text-indigo-700">
+                Set up your goals ahead of time. Days can be ticked off once they arrive.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleCopyPreviousWeek}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-indigo-700 bg-white border border-indigo-200 hover:bg-indigo-100 rounded-lg transition-colors"
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy previous week
+          </button>
+        </div>
+      )}
+
       {/* New Goal Form */}
       {showNewGoalForm && (
         <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
@@ -241,6 +397,89 @@ export function GoalsManager() {
               </select>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Track
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {([['days', 'Days completed'], ['amount', 'An amount']] as const).map(([measure, label]) => (
+                  <button
+                    key={measure}
+                    type="button"
+                    onClick={() => setNewGoal({ ...newGoal, measure })}
+                    className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                      newGoal.measure === measure
+                        ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {newGoal.measure === 'amount' && (
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Target
+                  </label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step="any"
+                    value={newGoal.target_amount}
+                    onChange={(e) => setNewGoal({ ...newGoal, target_amount: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Unit
+                  </label>
+                  <input
+                    type="text"
+                    value={newGoal.unit}
+                    onChange={(e) => setNewGoal({ ...newGoal, unit: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    placeholder={`e.g., ${UNIT_SUGGESTIONS[preferences.units][0]}`}
+                    list="new-goal-units"
+                  />
+                  <datalist id="new-goal-units">
+                    {UNIT_SUGGESTIONS[preferences.units].map(suggestion => <option key={suggestion} value={suggestion} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Per
+                  </label>
+                  <select
+                    value={newGoal.target_period}
+                    onChange={(e) => setNewGoal({ ...newGoal, target_period: e.target.value as 'daily' | 'weekly' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    <option value="daily">Day</option>
+                    <option value="weekly">Week</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={newGoal.repeat}
+                onChange={(e) => setNewGoal({ ...newGoal, repeat: e.target.checked })}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span className="text-sm text-gray-700">
+                <span className="font-medium">Repeat every week</span>
+                <span className="text-gray-500"> — carries this goal forward automatically</span>
+              </span>
+            </label>
+
             <div className="flex space-x-3">
               <button
                 type="button"
@@ -272,13 +511,23 @@ export function GoalsManager() {
           <p className="text-gray-600 mb-4">
             Create your first goal to start tracking your progress
           </p>
+          {!isPlanning && (
+            <button
+              onClick={handleCopyPreviousWeek}
+              className="inline-flex items-center text-indigo-600 hover:text-indigo-800 font-medium transition-colors"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy goals from the previous week
+            </button>
+          )}
         </div>
       ) : (
         <div className="space-y-6">
           {goals.map((goal) => {
-            const completedDays = Object.values(goal.completions).filter(Boolean).length;
-            const progressPercentage = Math.min(100, (completedDays / goal.target_days) * 100);
-            
+            const progress = getGoalProgress(goal, Object.values(goal.completions));
+            const progressPercentage = progress.ratio * 100;
+            const quantitative = isQuantitative(goal);
+
             return (
               <div
                 key={goal.id}
@@ -287,13 +536,21 @@ export function GoalsManager() {
                 {/* Goal Header */}
                 <div className="flex items-start justify-between mb-4">
                   <div className="flex-1">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-1">{goal.title}</h3>
+                    <div className="flex items-center space-x-2 mb-1">
+                      <h3 className="text-lg font-semibold text-gray-900">{goal.title}</h3>
+                      {goal.series_id && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                          <Repeat className="h-3 w-3 mr-1" />
+                          Weekly
+                        </span>
+                      )}
+                    </div>
                     {goal.description && (
                       <p className="text-gray-600 text-sm mb-2">{goal.description}</p>
                     )}
                     <div className="flex items-center space-x-4">
-                      <span className="text-sm text-gray-500">
-                        {completedDays}/{goal.target_days} days completed
+                      <span className="text-sm text-gray-500" title={formatTarget(goal)}>
+                        {progress.label}{quantitative ? '' : ' completed'}
                       </span>
                       <div className="flex-1 max-w-32 bg-gray-200 rounded-full h-2">
                         <div
@@ -312,47 +569,90 @@ export function GoalsManager() {
                       </span>
                     </div>
                   </div>
-                  <button
-                    onClick={() => handleDeleteGoal(goal.id)}
-                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => setDetailGoalId(goal.id)}
+                      className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title="View history"
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditingGoal(goal)}
+                      className="p-2 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title="Edit goal"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteGoal(goal)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete goal"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
                 </div>
 
-                {/* Daily Tracking */}
+                {/* Daily Tracking, over the days of the goal's own week */}
                 <div className="grid grid-cols-7 gap-2">
-                  {weekDays.map((day) => {
+                  {getWeekDays(parseDate(goal.week_start)).map((day) => {
                     const dateStr = formatDate(day);
-                    const isCompleted = goal.completions[dateStr] || false;
-                    const isToday = formatDate(new Date()) === dateStr;
-                    const isPast = day < new Date() && !isToday;
+                    const entry = goal.completions[dateStr] || { completed: false, value: null };
+                    const isCompleted = isDayMet(goal, entry);
+                    const isToday = formatDate(getToday(dateSettings)) === dateStr;
+                    const isPast = day < getToday(dateSettings) && !isToday;
+                    const isFuture = !isPast && !isToday;
                     
                     return (
                       <div key={dateStr} className="text-center">
                         <div className="text-xs text-gray-500 mb-1 font-medium">
-                          {formatDisplayDate(day).split(',')[0]}
+                          {formatDisplayDate(day, dateSettings).split(',')[0]}
                         </div>
-                        <button
-                          onClick={() => handleToggleCompletion(goal.id, dateStr, isCompleted)}
-                          className={`w-10 h-10 rounded-full border-2 transition-all duration-200 ${
-                            isCompleted
-                              ? 'bg-green-500 border-green-500 text-white shadow-md'
-                              : isToday
-                                ? 'border-indigo-400 bg-indigo-50 hover:bg-indigo-100'
-                                : isPast
-                                  ? 'border-red-200 bg-red-50 hover:bg-red-100'
-                                  : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
-                          } ${isToday ? 'ring-2 ring-indigo-200' : ''}`}
-                        >
-                          {isCompleted ? (
-                            <Check className="h-4 w-4 mx-auto" />
-                          ) : (
-                            <span className="text-xs text-gray-400">
-                              {day.getDate()}
-                            </span>
-                          )}
-                        </button>
+                        {quantitative ? (
+                          <input
+                            key={`${dateStr}-${entry.value ?? ''}`}
+                            type="number"
+                            min={0}
+                            step="any"
+                            defaultValue={entry.value ?? ''}
+                            onBlur={(e) => handleRecordValue(goal, dateStr, e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                            disabled={isFuture}
+                            placeholder={goal.unit || '0'}
+                            className={`w-full max-w-[3.5rem] h-10 rounded-full border-2 text-center text-xs font-medium focus:outline-none focus:ring-2 focus:ring-indigo-300 disabled:cursor-not-allowed disabled:opacity-60 ${
+                              isCompleted
+                                ? 'bg-green-500 border-green-500 text-white shadow-md placeholder-green-100'
+                                : entry.value
+                                  ? 'border-indigo-400 bg-indigo-50 text-indigo-700'
+                                  : isPast
+                                    ? 'border-red-200 bg-red-50'
+                                    : 'border-gray-300 bg-gray-50'
+                            } ${isToday ? 'ring-2 ring-indigo-200' : ''}`}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => handleToggleCompletion(goal.id, dateStr, entry.completed)}
+                            disabled={isFuture}
+                            className={`w-10 h-10 rounded-full border-2 transition-all duration-200 disabled:cursor-not-allowed disabled:opacity-60 ${
+                              isCompleted
+                                ? 'bg-green-500 border-green-500 text-white shadow-md'
+                                : isToday
+                                  ? 'border-indigo-400 bg-indigo-50 hover:bg-indigo-100'
+                                  : isPast
+                                    ? 'border-red-200 bg-red-50 hover:bg-red-100'
+                                    : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+                            } ${isToday ? 'ring-2 ring-indigo-200' : ''}`}
+                          >
+                            {isCompleted ? (
+                              <Check className="h-4 w-4 mx-auto" />
+                            ) : (
+                              <span className="text-xs text-gray-400">
+                                {day.getDate()}
+                              </span>
+                            )}
+                          </button>
+                        )}
                       </div>
                     );
                   })}
@@ -362,6 +662,73 @@ export function GoalsManager() {
           })}
         </div>
       )}
+
+      {/* Edit Goal Modal */}
+      {editingGoal && (
+        <GoalEditor
+          goal={{
+            ...editingGoal,
+            completedDays: getGoalProgress(editingGoal, Object.values(editingGoal.completions)).completedDays,
+          }}
+          isRecurring={Boolean(editingGoal.series_id)}
+          onSave={handleUpdateGoal}
+          onCancel={() => setEditingGoal(null)}
+        />
+      )}
+
+      {/* Goal Detail Modal */}
+      {detailGoalId && (
+        <GoalDetail goalId={detailGoalId} onClose={() => setDetailGoalId(null)} />
+      )}
+
+      {/* Recurring Habits */}
+      {openSeries.length > 0 && (
+        <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Recurring Habits</h2>
+            <Repeat className="h-5 w-5 text-gray-500" />
+          </div>
+          <div className="divide-y divide-gray-100">
+            {openSeries.map((item) => (
+              <div key={item.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">{item.title}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatTarget(item)}
+                    {item.status === 'paused' && ' · Paused'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {item.status === 'active' ? (
+                    <button
+                      onClick={() => handleSetSeriesStatus(item, 'paused')}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                    >
+                      <Pause className="h-4 w-4 mr-1" />
+                      Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSetSeriesStatus(item, 'active')}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleEndSeries(item)}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Square className="h-4 w-4 mr-1" />
+                    End
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
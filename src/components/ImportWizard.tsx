@@ -0,0 +1,467 @@
+import { useState, useMemo } from 'react';
+import { X, CheckCircle2 } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import {
+  ImportSource,
+  ImportData,
+  ImportPlan,
+  ImportResult,
+  GenericCsvMapping,
+  DATE_FORMATS,
+  readLoopCsv,
+  readGenericCsv,
+  readGoalSyncExport,
+  guessGenericMapping,
+  habitLogToImport,
+  suggestTargetDays,
+  planImport,
+  summarizeImportPlan,
+  applyImport,
+} from '../lib/dataImport';
+import { parseCsv } from '../utils/csv';
+
+const STEPS = ['File', 'Map', 'Preview'];
+
+const SOURCES: { value: ImportSource; label: string; description: string; accept: string }[] = [
+  {
+    value: 'loop',
+    label: 'Loop Habit Tracker',
+    description: 'The Checkmarks.csv file from Loop\'s "Export as CSV"',
+    accept: '.csv,text/csv',
+  },
+  {
+    value: 'generic',
+    label: 'Other CSV',
+    description: 'Any CSV with a date and a goal per row, and optionally whether it was done',
+    accept: '.csv,text/csv',
+  },
+  {
+    value: 'goalsync',
+    label: 'GoalSync export',
+    description: 'A JSON file downloaded from Export Data',
+    accept: '.json,application/json',
+  },
+];
+
+interface ImportWizardProps {
+  onClose: () => void;
+}
+
+export function ImportWizard({ onClose }: ImportWizardProps) {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { dateSettings } = usePreferences();
+  const [step, setStep] = useState(0);
+  const [source, setSource] = useState<ImportSource>('loop');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<GenericCsvMapping | null>(null);
+  const [targets, setTargets] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [importData, setImportData] = useState<ImportData | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const habitLog = useMemo(() => {
+    if (source === 'goalsync' || rows.length === 0) return null;
+    if (source === 'loop') return readLoopCsv(rows);
+    return mapping ? readGenericCsv(rows, mapping) : null;
+  }, [source, rows, mapping]);
+
+  const suggestedTargets = useMemo(() => (habitLog ? suggestTargetDays(habitLog, dateSettings) : {}), [habitLog, dateSettings]);
+  const summaries = useMemo(() => (plan ? summarizeImportPlan(plan) : []), [plan]);
+
+  const selectSource = (value: ImportSource) => {
+    setSource(value);
+    setFileName('');
+    setRows([]);
+    setError('');
+  };
+
+  const showPreview = async (data: ImportData) => {
+    if (!user) return;
+
+    setWorking(true);
+    try {
+      setPlan(await planImport(repositories, user.id, data, dateSettings));
+      setImportData(data);
+      setStep(2);
+    } catch (error) {
+      console.error('Error planning import:', error);
+      setError('Could not compare the file with your data. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setError('');
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      if (source === 'goalsync') {
+        await showPreview(readGoalSyncExport(text));
+        return;
+      }
+
+      const parsed = parseCsv(text);
+      if (parsed.length < 2) throw new Error('This file has no rows to import.');
+      if (source === 'loop') readLoopCsv(parsed);
+      setRows(parsed);
+      setMapping(source === 'generic' ? guessGenericMapping(parsed[0]) : null);
+      setTargets({});
+      setExcluded([]);
+      setStep(1);
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setError(error instanceof Error ? error.message : 'Could not read this file.');
+    }
+  };
+
+  const handleMapped = () => {
+    if (!habitLog) return;
+
+    const chosen = Object.fromEntries(
+      habitLog.habits
+        .filter(title => !excluded.includes(title))
+        .map(title => [title, targets[title] ?? suggestedTargets[title]])
+    );
+    if (Object.keys(chosen).length === 0) {
+      setError('Choose at least one habit to import.');
+      return;
+    }
+    setError('');
+    showPreview(habitLogToImport(habitLog, chosen, dateSettings));
+  };
+
+  const handleImport = async () => {
+    if (!user || !plan || !importData) return;
+
+    setWorking(true);
+    setError('');
+    try {
+      setResult(await applyImport(repositories, user.id, plan));
+    } catch (error) {
+      console.error('Error importing data:', error);
+      // The old plan still lists what was imported before the failure as new
+      try {
+        setPlan(await planImport(repositories, user.id, importData, dateSettings));
+        setError('The import stopped partway. The preview now shows only what is still missing; import again to finish.');
+      } catch (planError) {
+        console.error('Error planning import:', planError);
+        setPlan(null);
+        setStep(0);
+        setError('The import stopped partway. Choose the file again to import what is still missing.');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateMapping = (patch: Partial<GenericCsvMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...patch });
+  };
+
+  const toggleHabit = (title: string) => {
+    setExcluded(excluded.includes(title) ? excluded.filter(item => item !== title) : [...excluded, title]);
+  };
+
+  const newDays = summaries.reduce((sum, summary) => sum + summary.newDays, 0);
+  const newWeeks = summaries.reduce((sum, summary) => sum + summary.newWeeks, 0);
+  const duplicateDays = summaries.reduce((sum, summary) => sum + summary.duplicateDays, 0);
+  const conflictDays = summaries.reduce((sum, summary) => sum + summary.conflictDays, 0);
+  const newCheckins = plan ? plan.checkins.filter(checkin => !checkin.duplicate).length : 0;
+  const duplicateCheckins = plan ? plan.checkins.length - newCheckins : 0;
+  const hasChanges = newDays + newWeeks + newCheckins > 0;
+  const selectClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Import Data</h2>
+              {fileName && <p className="text-sm text-gray-500 mt-1">{fileName}</p>}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Steps */}
+          <div className="flex items-center space-x-2 mb-6">
+            {STEPS.map((label, index) => (
+              <div key={label} className="flex-1">
+                <div className={`h-1.5 rounded-full ${index <= step ? 'bg-indigo-600' : 'bg-gray-200'}`} />
+                <p className={`text-xs mt-1 ${index === step ? 'text-indigo-700 font-medium' : 'text-gray-500'}`}>{label}</p>
+              </div>
+            ))}
+          </div>
+
+          {step === 0 && (
+            <div className="space-y-3">
+              {SOURCES.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start p-3 rounded-lg border cursor-pointer transition-colors ${
+                    source === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="import-source"
+                    checked={source === option.value}
+                    onChange={() => selectSource(option.value)}
+                    className="mt-1 mr-3 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-600">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+
+              <input
+                key={source}
+                type="file"
+                accept={SOURCES.find(option => option.value === source)!.accept}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                disabled={working}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-indigo-600 file:text-white file:font-medium hover:file:bg-indigo-700"
+              />
+              {working && <p className="text-sm text-gray-500">Checking for duplicates...</p>}
+            </div>
+          )}
+
+          {step === 1 && habitLog && (
+            <div className="space-y-5">
+              {mapping && (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <label className="block">
+                    <span className="block text-sm text-gray-700 mb-1">Date column</span>
+                    <select
+                      value={mapping.dateColumn}
+                      onChange={(e) => updateMapping({ dateColumn: Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      {rows[0].map((name, index) => <option key={index} value={index}>{name || `Column ${index + 1}`}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm text-gray-700 mb-1">Date format</span>
+                    <select
+                      value={mapping.dateFormat}
+                      onChange={(e) => updateMapping({ dateFormat: e.target.value })}
+                      className={selectClass}
+                    >
+                      {DATE_FORMATS.map(option => <option key={option.value} value={option.value}>{option.example}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm text-gray-700 mb-1">Goal column</span>
+                    <select
+                      value={mapping.goalColumn}
+                      onChange={(e) => updateMapping({ goalColumn: Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      {rows[0].map((name, index) => <option key={index} value={index}>{name || `Column ${index + 1}`}</option>)}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm text-gray-700 mb-1">Done column</span>
+                    <select
+                      value={mapping.doneColumn ?? ''}
+                      onChange={(e) => updateMapping({ doneColumn: e.target.value === '' ? null : Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      <option value="">None, every row is done</option>
+                      {rows[0].map((name, index) => <option key={index} value={index}>{name || `Column ${index + 1}`}</option>)}
+                    </select>
+                  </label>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-1">Habits</h3>
+                <p className="text-xs text-gray-600 mb-3">
+                  Each habit becomes a weekly goal. Targets start at how often you usually did it.
+                </p>
+                {habitLog.habits.length > 0 ? (
+                  <ul className="space-y-2">
+                    {habitLog.habits.map(title => (
+                      <li key={title} className="flex items-center justify-between text-sm">
+                        <label className="flex items-center text-gray-900">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.includes(title)}
+                            onChange={() => toggleHabit(title)}
+                            className="mr-2 rounded text-indigo-600 focus:ring-indigo-500"
+                          />
+                          {title}
+                        </label>
+                        <label className="flex items-center text-gray-600">
+                          <input
+                            type="number"
+                            min={1}
+                            max={7}
+                            value={targets[title] ?? suggestedTargets[title]}
+                            disabled={excluded.includes(title)}
+                            onChange={(e) => setTargets({
+                              ...targets,
+                              [title]: Math.min(7, Math.max(1, Number(e.target.value) || 1)),
+                            })}
+                            className="w-16 px-2 py-1 mr-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                          />
+                          days/week
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No rows match these columns yet</p>
+                )}
+                {habitLog.skippedRows > 0 && (
+                  <p className="text-xs text-amber-700 mt-3">
+                    {habitLog.skippedRows} rows have no readable date or goal and will be skipped
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 2 && plan && (
+            result ? (
+              <div className="text-center py-6">
+                <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto mb-3" />
+                <p className="text-gray-900 font-medium">Import complete</p>
+                <p className="text-sm text-gray-600 mt-1">
+                  Added {result.goals} weekly goals, {result.days} days of history and {result.checkins} check-ins.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">New weekly goals</p>
+                    <p className="text-lg font-bold text-gray-900">{newWeeks}</p>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Days to add</p>
+                    <p className="text-lg font-bold text-gray-900">{newDays}</p>
+                  </div>
+                  <div className="p-3 bg-gray-50 rounded-lg">
+                    <p className="text-xs text-gray-600">Check-ins</p>
+                    <p className="text-lg font-bold text-gray-900">{newCheckins}</p>
+                  </div>
+                </div>
+
+                {summaries.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="font-medium pb-2">Goal</th>
+                        <th className="font-medium pb-2 text-right">Weeks</th>
+                        <th className="font-medium pb-2 text-right">Days done</th>
+                        <th className="font-medium pb-2 text-right">Already there</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summaries.map(summary => (
+                        <tr key={summary.title} className="border-t border-gray-100">
+                          <td className="py-1.5 text-gray-900">{summary.title}</td>
+                          <td className="py-1.5 text-right text-gray-600">
+                            {summary.weeks}
+                            {summary.newWeeks < summary.weeks && ` (${summary.weeks - summary.newWeeks} existing)`}
+                          </td>
+                          <td className="py-1.5 text-right text-gray-600">{summary.daysDone}</td>
+                          <td className="py-1.5 text-right text-gray-600">{summary.duplicateDays + summary.conflictDays}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                <ul className="text-xs text-gray-600 space-y-1">
+                  {duplicateDays > 0 && <li>{duplicateDays} days are already recorded and will be skipped</li>}
+                  {conflictDays > 0 && <li>{conflictDays} days differ from what you recorded; your entries are kept</li>}
+                  {duplicateCheckins > 0 && <li>{duplicateCheckins} check-ins are on days you already checked in</li>}
+                  {plan.repeatedRows > 0 && <li>{plan.repeatedRows} rows repeat an earlier row in the file</li>}
+                  {plan.skippedRows > 0 && <li>{plan.skippedRows} rows could not be read or matched to a goal and will be skipped</li>}
+                </ul>
+
+                {!hasChanges && (
+                  <p className="text-sm text-gray-500">Everything in this file is already in GoalSync.</p>
+                )}
+              </div>
+            )
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex space-x-3 pt-6">
+            {result ? (
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
+              >
+                Done
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError('');
+                    if (step === 0) onClose();
+                    else setStep(step === 2 && source === 'goalsync' ? 0 : step - 1);
+                  }}
+                  disabled={working}
+                  className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-lg font-medium transition-colors"
+                >
+                  {step === 0 ? 'Cancel' : 'Back'}
+                </button>
+                {step === 1 && (
+                  <button
+                    type="button"
+                    onClick={handleMapped}
+                    disabled={working}
+                    className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+                  >
+                    {working ? 'Checking...' : 'Preview'}
+                  </button>
+                )}
+                {step === 2 && (
+                  <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={working || !hasChanges}
+                    className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+                  >
+                    {working ? 'Importing...' : 'Import'}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,48 @@
 import React from 'react';
-import { LogOut, Target, BarChart3 } from 'lucide-react';
+import { LogOut, Target, BarChart3, Cloud, CloudOff, RefreshCw, HardDrive, Settings } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncNow, retryFailedChanges, discardFailedChanges } from '../lib/sync';
+import { dataBackendName } from '../lib/repositories';
+import { isSupabaseConfigured } from '../lib/supabase';
+
+export type Page = 'dashboard' | 'goals' | 'analytics' | 'settings';
 
 interface LayoutProps {
   children: React.ReactNode;
-  currentPage: 'dashboard' | 'goals' | 'analytics';
-  onNavigate: (page: 'dashboard' | 'goals' | 'analytics') => void;
+  currentPage: Page;
+  onNavigate: (page: Page) => void;
 }
 
 export function Layout({ children, currentPage, onNavigate }: LayoutProps) {
   const { user, signOut } = useAuth();
+  const syncStatus = useSyncStatus();
 
   const handleSignOut = async () => {
     await signOut();
   };
 
+  const handleDiscardFailed = async () => {
+    if (!confirm('Discard the changes the server rejected? Their rows go back to the synced version.')) return;
+    await discardFailedChanges();
+  };
+
   const navItems = [
     { key: 'dashboard', label: 'Dashboard', icon: BarChart3 },
     { key: 'goals', label: 'Goals', icon: Target },
     { key: 'analytics', label: 'Analytics', icon: BarChart3 },
+    { key: 'settings', label: 'Settings', icon: Settings },
   ] as const;
 
+  const syncBadge = {
+    local: { label: 'Offline mode', icon: HardDrive, className: 'bg-gray-100 text-gray-700' },
+    offline: { label: 'Offline', icon: CloudOff, className: 'bg-amber-100 text-amber-800' },
+    idle: { label: 'Synced', icon: Cloud, className: 'bg-green-100 text-green-700' },
+    syncing: { label: 'Syncing', icon: RefreshCw, className: 'bg-indigo-100 text-indigo-700' },
+    error: { label: 'Sync error', icon: CloudOff, className: 'bg-red-100 text-red-700' },
+  }[syncStatus.status];
+  const SyncIcon = syncBadge.icon;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
       {/* Header */}
@@ -33,16 +55,48 @@ export function Layout({ children, currentPage, onNavigate }: LayoutProps) {
             </div>
             
             <div className="flex items-center space-x-4">
+              {dataBackendName === 'local' && (
+                <button
+                  onClick={() => syncNow()}
+                  disabled={syncStatus.status === 'local'}
+                  title={
+                    syncStatus.status === 'local'
+                      ? 'Data is stored on this device until a database is connected'
+                      : syncStatus.error || 'Sync now'
+                  }
+                  className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${syncBadge.className}`}
+                >
+                  <SyncIcon className={`h-3.5 w-3.5 mr-1 ${syncStatus.status === 'syncing' ? 'animate-spin' : ''}`} />
+                  {syncBadge.label}
+                  {syncStatus.pending > 0 && ` · ${syncStatus.pending} pending`}
+                </button>
+              )}
+              {dataBackendName === 'local' && syncStatus.failed > 0 && (
+                <span
+                  title={syncStatus.error || 'The server rejected these changes'}
+                  className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700"
+                >
+                  {syncStatus.failed} rejected
+                  <button onClick={() => retryFailedChanges()} className="ml-2 underline hover:text-red-900">
+                    Retry
+                  </button>
+                  <button onClick={handleDiscardFailed} className="ml-2 underline hover:text-red-900">
+                    Discard
+                  </button>
+                </span>
+              )}
               <span className="text-sm text-gray-600">
                 Welcome, {user?.user_metadata?.full_name || user?.email}
               </span>
-              <button
-                onClick={handleSignOut}
-                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
-              >
-                <LogOut className="h-4 w-4 mr-1" />
-                Sign Out
-              </button>
+              {isSupabaseConfigured && (
+                <button
+                  onClick={handleSignOut}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  <LogOut className="h-4 w-4 mr-1" />
+                  Sign Out
+                </button>
+              )}
             </div>
           </div>
         </div>
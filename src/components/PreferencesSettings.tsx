@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { usePreferences } from '../hooks/usePreferences';
+import {
+  Preferences,
+  UnitSystem,
+  WEEK_START_OPTIONS,
+  getDeviceTimezone,
+  isValidTimezone,
+  listTimezones,
+} from '../utils/preferences';
+
+export function PreferencesSettings() {
+  const { preferences, savePreferences } = usePreferences();
+  const [draft, setDraft] = useState<Preferences>(preferences);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setDraft(preferences);
+  }, [preferences]);
+
+  // A timezone saved on another device may be missing from this browser's list
+  const timezones = listTimezones();
+  if (preferences.timezone && !timezones.includes(preferences.timezone)) {
+    timezones.unshift(preferences.timezone);
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (draft.timezone && !isValidTimezone(draft.timezone)) {
+      setError('Please choose a timezone from the list.');
+      return;
+    }
+    if (!Number.isInteger(draft.default_target_days) || draft.default_target_days < 1 || draft.default_target_days > 7) {
+      setError('Default target days must be a whole number from 1 to 7.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await savePreferences(draft);
+      setMessage('Preferences saved.');
+    } catch (err) {
+      console.error('Error saving preferences:', err);
+      setError('Could not save your preferences. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const update = (patch: Partial<Preferences>) => {
+    setDraft({ ...draft, ...patch });
+    setMessage('');
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">Preferences</h2>
+        <SlidersHorizontal className="h-5 w-5 text-gray-500" />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        How your weeks are laid out and what new goals start with
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block text-sm text-gray-700 mb-1">Week starts on</span>
+            <select
+              value={draft.week_starts_on}
+              onChange={(e) => update({ week_starts_on: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {WEEK_START_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm text-gray-700 mb-1">Timezone</span>
+            <select
+              value={draft.timezone ?? ''}
+              onChange={(e) => update({ timezone: e.target.value || null })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="">Device ({getDeviceTimezone()})</option>
+              {timezones.map(timezone => (
+                <option key={timezone} value={timezone}>{timezone}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-sm text-gray-700 mb-1">New goals aim for (days per week)</span>
+            <input
+              type="number"
+              min="1"
+              max="7"
+              value={draft.default_target_days}
+              onChange={(e) => update({ default_target_days: Number(e.target.value) })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-sm text-gray-700 mb-1">Units</span>
+            <select
+              value={draft.units}
+              onChange={(e) => update({ units: e.target.value as UnitSystem })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              <option value="metric">Metric (km, kg)</option>
+              <option value="imperial">Imperial (mi, lb)</option>
+            </select>
+          </label>
+
+          <div>
+            <span className="block text-sm text-gray-700 mb-1">Check-in reminder</span>
+            <div className="flex items-center gap-3">
+              <input
+                type="time"
+                value={draft.reminder_time ?? ''}
+                onChange={(e) => update({ reminder_time: e.target.value || null })}
+                disabled={draft.reminder_time === null}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+              />
+              <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={draft.reminder_time === null}
+                  onChange={(e) => update({ reminder_time: e.target.checked ? null : preferences.reminder_time ?? '20:00' })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Off
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {draft.week_starts_on !== preferences.week_starts_on && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+            <p className="text-amber-800 text-sm">
+              Weeks you have already planned keep their current start day and are shown in the new week they mostly overlap. The new start day applies from the next week you plan.
+            </p>
+          </div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-700 text-sm">{message}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save preferences'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { UserRound } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { loadProfile, updateProfile } from '../lib/profile';
+
+export function ProfileSettings() {
+  const { user } = useAuth();
+  const [fullName, setFullName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadProfile(user)
+      .then(profile => setFullName(profile.full_name || ''))
+      .catch(err => {
+        console.error('Error loading profile:', err);
+        setError('Could not load your profile.');
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await updateProfile(user, { full_name: fullName.trim() || null });
+      setFullName(fullName.trim());
+      setMessage('Profile saved.');
+    } catch (err) {
+      console.error('Error saving profile:', err);
+      setError('Could not save your profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-gray-900">Profile</h2>
+        <UserRound className="h-5 w-5 text-gray-500" />
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        The name GoalSync greets you with
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <label className="block">
+          <span className="block text-sm text-gray-700 mb-1">Full name</span>
+          <input
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            maxLength={100}
+            disabled={loading || !isSupabaseConfigured}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+          />
+        </label>
+
+        {!isSupabaseConfigured && (
+          <p className="text-sm text-gray-500">Connect a database to edit your profile.</p>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-700 text-sm">{message}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving || loading || !isSupabaseConfigured}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save profile'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { subWeeks, addDays } from 'date-fns';
+import { usePreferences } from '../hooks/usePreferences';
+import { formatDate, getToday, parseDate } from '../utils/dates';
+import { RANGE_PRESETS, DateRange, RangePreset, presetRange } from '../utils/dateRanges';
+import type { Granularity } from '../lib/analyticsData';
+
+const GRANULARITIES: { value: Granularity; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+interface RangePickerProps {
+  range: DateRange;
+  granularity: Granularity;
+  onRangeChange: (range: DateRange) => void;
+  onGranularityChange: (granularity: Granularity) => void;
+}
+
+export function RangePicker({ range, granularity, onRangeChange, onGranularityChange }: RangePickerProps) {
+  const { dateSettings } = usePreferences();
+  const today = formatDate(getToday(dateSettings));
+
+  const selectPreset = (preset: RangePreset) => {
+    const option = RANGE_PRESETS.find(p => p.value === preset)!;
+    onRangeChange(preset === 'custom'
+      ? { preset, from: range.from || formatDate(addDays(subWeeks(parseDate(range.to), 12), 1)), to: range.to }
+      : presetRange(preset, getToday(dateSettings)));
+    if (option.granularity) onGranularityChange(option.granularity);
+  };
+
+  const changeCustom = (from: string, to: string) => {
+    if (!from || !to) return;
+    // Keep the range the right way round when one end passes the other
+    onRangeChange(from <= to ? { preset: 'custom', from, to } : { preset: 'custom', from: to, to: from });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="inline-flex flex-wrap bg-white/80 backdrop-blur-sm rounded-lg border border-gray-200 shadow-sm p-1">
+        {RANGE_PRESETS.map(preset => (
+          <button
+            key={preset.value}
+            onClick={() => selectPreset(preset.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+              range.preset === preset.value
+                ? 'bg-indigo-100 text-indigo-700'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {range.preset === 'custom' && (
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <input
+            type="date"
+            value={range.from || ''}
+            max={today}
+            onChange={(e) => changeCustom(e.target.value, range.to)}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={range.to}
+            max={today}
+            onChange={(e) => changeCustom(range.from || e.target.value, e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+      )}
+
+      <div className="inline-flex bg-white/80 backdrop-blur-sm rounded-lg border border-gray-200 shadow-sm p-1">
+        {GRANULARITIES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onGranularityChange(option.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+              granularity === option.value
+                ? 'bg-indigo-100 text-indigo-700'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
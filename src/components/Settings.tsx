@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge, History, RotateCcw } from 'lucide-react';
+import { useScoringModels } from '../hooks/useScoringModels';
+import {
+  BurnoutModelConfig,
+  DEFAULT_SCORING_MODEL,
+  calculateBurnoutScore,
+  getBurnoutLevel,
+} from '../utils/burnout';
+import { EXTRA_METRICS } from '../utils/metrics';
+import { DataExport } from './DataExport';
+import { DataImport } from './DataImport';
+import { ChangeEmail } from './Auth';
+import { ProfileSettings } from './ProfileSettings';
+import { PreferencesSettings } from './PreferencesSettings';
+
+type ModelSection = keyof BurnoutModelConfig;
+
+interface ModelField {
+  section: ModelSection;
+  key: string;
+  label: string;
+  step: number;
+}
+
+const SECTION_LABELS: Record<ModelSection, string> = {
+  stress: 'Stress',
+  sleep: 'Sleep',
+  mood: 'Mood',
+  workload: 'Workload',
+  levels: 'Levels',
+  extraWeights: 'Other metrics',
+};
+
+const MODEL_FIELDS: ModelField[] = [
+  { section: 'stress', key: 'maxPoints', label: 'Points at highest stress', step: 0.5 },
+  { section: 'sleep', key: 'minHours', label: 'Penalise sleep below (hours)', step: 0.5 },
+  { section: 'sleep', key: 'deficitMaxPoints', label: 'Points with no sleep', step: 0.5 },
+  { section: 'sleep', key: 'maxHours', label: 'Penalise sleep above (hours)', step: 0.5 },
+  { section: 'sleep', key: 'oversleepPerHour', label: 'Points per hour oversleeping', step: 0.1 },
+  { section: 'sleep', key: 'oversleepMaxPoints', label: 'Most points for oversleeping', step: 0.5 },
+  { section: 'mood', key: 'maxPoints', label: 'Points at lowest mood', step: 0.5 },
+  { section: 'workload', key: 'thresholdHours', label: 'Penalise work above (hours)', step: 0.5 },
+  { section: 'workload', key: 'perHour', label: 'Points per extra hour', step: 0.1 },
+  { section: 'workload', key: 'maxPoints', label: 'Most points for overwork', step: 0.5 },
+  { section: 'levels', key: 'low', label: 'Low burnout up to', step: 0.5 },
+  { section: 'levels', key: 'moderate', label: 'Moderate burnout up to', step: 0.5 },
+  ...EXTRA_METRICS.map(metric => ({
+    section: 'extraWeights' as const,
+    key: metric.key,
+    label: `Points for ${metric.label.toLowerCase()} at its worst`,
+    step: 0.5,
+  })),
+];
+
+// A typical day used to preview how a model scores
+const SAMPLE_METRICS = { stress_level: 3, sleep_hours: 7, mood_level: 3, time_spent_hours: 9 };
+
+function getField(config: BurnoutModelConfig, field: ModelField): number {
+  const section = config[field.section] as Record<string, number> | undefined;
+  return section?.[field.key] ?? 0;
+}
+
+function validateConfig(config: BurnoutModelConfig): string | null {
+  if (MODEL_FIELDS.some(field => !Number.isFinite(getField(config, field)) || getField(config, field) < 0)) {
+    return 'Every value must be a number of zero or more.';
+  }
+  if (config.sleep.minHours <= 0 || config.sleep.minHours > config.sleep.maxHours) {
+    return 'The lower sleep limit must be above zero and no higher than the upper limit.';
+  }
+  if (config.levels.low >= config.levels.moderate || config.levels.moderate > 10) {
+    return 'Level cut-offs must increase and stay within the 0-10 score range.';
+  }
+  return null;
+}
+
+export function Settings() {
+  const { models, activeModel, loading, saveModel } = useScoringModels();
+  const [draft, setDraft] = useState<BurnoutModelConfig>(activeModel.config);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(activeModel.config);
+  }, [activeModel]);
+
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(activeModel.config);
+
+  const handleFieldChange = (field: ModelField, value: number) => {
+    setDraft(current => ({
+      ...current,
+      [field.section]: { ...current[field.section], [field.key]: value },
+    }));
+    setMessage('');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateConfig(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    try {
+      const model = await saveModel(draft);
+      setMessage(`Saved as version ${model.version}. New check-ins will use it.`);
+    } catch (err) {
+      console.error('Error saving scoring model:', err);
+      setError('Could not save the scoring model. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const currentSample = calculateBurnoutScore(SAMPLE_METRICS, activeModel);
+  const draftModel = { version: activeModel.version + 1, config: draft };
+  const draftSample = calculateBurnoutScore(SAMPLE_METRICS, draftModel);
+  const draftLevel = getBurnoutLevel(draftSample, draftModel);
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600 mt-1">
+          Tune GoalSync to the way you live and work
+        </p>
+      </div>
+
+      <ProfileSettings />
+
+      <ChangeEmail />
+
+      <PreferencesSettings />
+
+      {/* Burnout Scoring */}
+      <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-semibold text-gray-900">Burnout Scoring</h2>
+          <Gauge className="h-5 w-5 text-gray-500" />
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Adjust how check-ins turn into a burnout score, for example if you work night shifts or
+          need more sleep than most. Each save creates a new version; past check-ins keep the score
+          of the version they were recorded with.
+        </p>
+
+        <form onSubmit={handleSave} className="space-y-6">
+          {(Object.keys(SECTION_LABELS) as ModelSection[]).map(section => (
+            <fieldset key={section}>
+              <legend className="text-sm font-semibold text-gray-900 mb-2">{SECTION_LABELS[section]}</legend>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {MODEL_FIELDS.filter(field => field.section === section).map(field => (
+                  <label key={`${field.section}.${field.key}`} className="block">
+                    <span className="block text-sm text-gray-700 mb-1">{field.label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={field.step}
+                      value={getField(draft, field)}
+                      onChange={(e) => handleFieldChange(field, Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ))}
+
+          <div className={`rounded-lg p-4 ${draftLevel.bgColor}`}>
+            <p className="text-sm text-gray-700">
+              A day with stress 3/5, {SAMPLE_METRICS.sleep_hours}h sleep, mood 3/5 and{' '}
+              {SAMPLE_METRICS.time_spent_hours}h of work scores{' '}
+              <strong className={draftLevel.color}>{draftSample}/10 ({draftLevel.level})</strong>
+              {isChanged && <> with these settings, and {currentSample}/10 with version {activeModel.version}</>}.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <p className="text-green-700 text-sm">{message}</p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="submit"
+              disabled={saving || !isChanged}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {saving ? 'Saving...' : `Save as version ${activeModel.version + 1}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(DEFAULT_SCORING_MODEL.config)}
+              className="inline-flex items-center px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition-colors"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore defaults
+            </button>
+          </div>
+        </form>
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <h3 className="flex items-center text-sm font-semibold text-gray-900 mb-3">
+            <History className="h-4 w-4 mr-2 text-gray-500" />
+            Versions
+          </h3>
+          <ul className="space-y-1 text-sm text-gray-600">
+            {[...models].reverse().map(model => (
+              <li key={model.version}>
+                Version {model.version}
+                {model.version === DEFAULT_SCORING_MODEL.version && ' · built-in default'}
+                {model.version === activeModel.version && (
+                  <span className="ml-2 text-xs font-medium text-indigo-600">In use</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <DataExport />
+
+      <DataImport />
+    </div>
+  );
+}
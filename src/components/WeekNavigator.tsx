@@ -0,0 +1,70 @@
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import { differenceInCalendarWeeks } from 'date-fns';
+import { usePreferences } from '../hooks/usePreferences';
+import { formatWeekRange, formatDate, getCurrentWeekStart, getWeekStart, shiftWeek, isCurrentWeek, parseDate } from '../utils/dates';
+
+interface WeekNavigatorProps {
+  weekStart: Date;
+  onChange: (weekStart: Date) => void;
+}
+
+export function WeekNavigator({ weekStart, onChange }: WeekNavigatorProps) {
+  const { dateSettings } = usePreferences();
+  const currentWeekStart = getCurrentWeekStart(dateSettings);
+  const weekOffset = differenceInCalendarWeeks(weekStart, currentWeekStart, { weekStartsOn: dateSettings.weekStartsOn });
+
+  const relativeLabel = weekOffset === 0
+    ? 'This week'
+    : weekOffset === -1
+      ? 'Last week'
+      : weekOffset === 1
+        ? 'Next week'
+        : weekOffset < 0
+          ? `${-weekOffset} weeks ago`
+          : `In ${weekOffset} weeks`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="inline-flex items-center bg-white/80 backdrop-blur-sm rounded-lg border border-gray-200 shadow-sm">
+        <button
+          onClick={() => onChange(shiftWeek(weekStart, -1))}
+          className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-l-lg transition-colors"
+          title="Previous week"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <div className="px-3 text-center min-w-[11rem]">
+          <div className="text-sm font-medium text-gray-900">{formatWeekRange(weekStart)}</div>
+          <div className="text-xs text-gray-500">{relativeLabel}</div>
+        </div>
+        <button
+          onClick={() => onChange(shiftWeek(weekStart, 1))}
+          className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-r-lg transition-colors"
+          title="Next week"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
+
+      <label className="relative inline-flex items-center px-3 py-2 bg-white/80 backdrop-blur-sm rounded-lg border border-gray-200 shadow-sm text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+        <CalendarDays className="h-4 w-4 mr-2 text-gray-500" />
+        Pick a week
+        <input
+          type="date"
+          value={formatDate(weekStart)}
+          onChange={(e) => e.target.value && onChange(getWeekStart(parseDate(e.target.value), dateSettings))}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+
+      {!isCurrentWeek(weekStart, dateSettings) && (
+        <button
+          onClick={() => onChange(currentWeekStart)}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors"
+        >
+          Back to this week
+        </button>
+      )}
+    </div>
+  );
+}
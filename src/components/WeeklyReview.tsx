@@ -0,0 +1,341 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, ThumbsUp, ThumbsDown, Repeat } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { useRepositories } from '../hooks/useRepositories';
+import { usePreferences } from '../hooks/usePreferences';
+import type { Goal, WeeklyReview as WeeklyReviewRow } from '../lib/repositories';
+import { planNextWeek } from '../lib/goalPlanner';
+import { listGoalsForWeek, getReviewForWeek } from '../lib/weekLookup';
+import { summarizeWeek, WeekSummary, ReviewAction, ReviewDecision, ReviewDay } from '../utils/weeklyReview';
+import { getWeekDays, getStoredWeekRange, getToday, formatDate, formatDisplayDate, formatWeekRange, parseDate } from '../utils/dates';
+
+const STEPS = ['Summary', 'Reflect', 'Next week'];
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  keep: 'Keep',
+  adjust: 'Adjust',
+  drop: 'Drop',
+};
+
+interface GoalPlan {
+  action: ReviewAction;
+  targetDays: number;
+}
+
+interface WeeklyReviewProps {
+  weekStart: Date;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function WeeklyReview({ weekStart, onClose, onSaved }: WeeklyReviewProps) {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const { dateSettings } = usePreferences();
+  const [step, setStep] = useState(0);
+  const [summary, setSummary] = useState<WeekSummary<Goal> | null>(null);
+  const [existing, setExisting] = useState<WeeklyReviewRow | null>(null);
+  const [wentWell, setWentWell] = useState('');
+  const [didntWork, setDidntWork] = useState('');
+  const [plans, setPlans] = useState<Record<string, GoalPlan>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadWeek = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const weekDates = getWeekDays(weekStart).map(day => formatDate(day));
+      const { from, lastDay } = getStoredWeekRange(weekStart);
+      const [goals, completions, checkins, review] = await Promise.all([
+        listGoalsForWeek(repositories, user.id, weekStart),
+        repositories.completions.listByDateRange(user.id, from, lastDay),
+        repositories.checkins.listByDateRange(user.id, weekDates[0], weekDates[6]),
+        getReviewForWeek(repositories, user.id, weekStart),
+      ]);
+
+      setSummary(summarizeWeek(goals, completions, checkins, weekDates, formatDate(getToday(dateSettings))));
+      setExisting(review);
+      setWentWell(review?.went_well || '');
+      setDidntWork(review?.didnt_work || '');
+      setPlans(Object.fromEntries(goals.map(goal => [goal.id, { action: 'keep', targetDays: goal.target_days }])));
+    } catch (error) {
+      console.error('Error loading weekly review:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, repositories, weekStart, dateSettings]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  const setPlan = (goalId: string, plan: Partial<GoalPlan>) => {
+    setPlans({ ...plans, [goalId]: { ...plans[goalId], ...plan } });
+  };
+
+  const handleSave = async () => {
+    if (!user || !summary) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const goalPlans = summary.goals.map(({ goal }) => ({
+        goal,
+        action: plans[goal.id].action,
+        // An adjustment back to the same target is the same as keeping it
+        targetDays: plans[goal.id].action === 'adjust' ? plans[goal.id].targetDays : goal.target_days,
+      }));
+      await planNextWeek(repositories, user.id, weekStart, goalPlans, dateSettings);
+
+      const decisions: ReviewDecision[] = goalPlans.map(plan => ({
+        goal_title: plan.goal.title,
+        action: plan.action === 'adjust' && plan.targetDays === plan.goal.target_days ? 'keep' : plan.action,
+        from_days: plan.goal.target_days,
+        to_days: plan.action === 'drop' ? 0 : plan.targetDays,
+      }));
+      const fields = {
+        went_well: wentWell.trim(),
+        didnt_work: didntWork.trim(),
+        completion_rate: summary.completionRate,
+        avg_burnout_score: summary.avgBurnoutScore,
+        decisions,
+      };
+
+      if (existing) {
+        await repositories.weeklyReviews.update(user.id, existing.id, fields);
+      } else {
+        await repositories.weeklyReviews.create({ user_id: user.id, week_start: formatDate(weekStart), ...fields });
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Error saving weekly review:', error);
+      setError('Could not save your review. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeDay = (day: ReviewDay) => [
+    day.planned > 0 ? `${day.met}/${day.planned} goals done` : null,
+    day.burnoutScore !== null ? `burnout ${day.burnoutScore}/10` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Weekly Review</h2>
+              <p className="text-sm text-gray-500 mt-1">{formatWeekRange(weekStart)}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-500" />
+            </button>
+          </div>
+
+          {/* Steps */}
+          <div className="flex items-center space-x-2 mb-6">
+            {STEPS.map((label, index) => (
+              <div key={label} className="flex-1">
+                <div className={`h-1.5 rounded-full ${index <= step ? 'bg-indigo-600' : 'bg-gray-200'}`} />
+                <p className={`text-xs mt-1 ${index === step ? 'text-indigo-700 font-medium' : 'text-gray-500'}`}>{label}</p>
+              </div>
+            ))}
+          </div>
+
+          {loading || !summary ? (
+            <div className="flex items-center justify-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <>
+              {step === 0 && (
+                <div className="space-y-5">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-600">Goal completion</p>
+                      <p className="text-lg font-bold text-gray-900">
+                        {summary.completionRate === null ? '—' : `${Math.round(summary.completionRate * 100)}%`}
+                      </p>
+                    </div>
+                    <div className="p-3 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-600">Average burnout</p>
+                      <p className="text-lg font-bold text-gray-900">
+                        {summary.avgBurnoutScore === null ? '—' : `${summary.avgBurnoutScore.toFixed(1)}/10`}
+                      </p>
+                    </div>
+                  </div>
+
+                  {summary.goals.length > 0 ? (
+                    <ul className="space-y-2">
+                      {summary.goals.map(({ goal, progress }) => (
+                        <li key={goal.id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-900">{goal.title}</span>
+                          <span className={progress.ratio >= 1 ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                            {progress.label}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No goals were set this week</p>
+                  )}
+
+                  {(summary.bestDay || summary.worstDay) && (
+                    <div className="space-y-2">
+                      {summary.bestDay && (
+                        <div className="flex items-start space-x-3 p-3 bg-green-50 rounded-lg">
+                          <ThumbsUp className="h-4 w-4 mt-0.5 text-green-700" />
+                          <div className="text-sm">
+                            <p className="font-medium text-green-900">Best day: {formatDisplayDate(parseDate(summary.bestDay.date), dateSettings)}</p>
+                            <p className="text-green-800">{describeDay(summary.bestDay)}</p>
+                          </div>
+                        </div>
+                      )}
+                      {summary.worstDay && (
+                        <div className="flex items-start space-x-3 p-3 bg-amber-50 rounded-lg">
+                          <ThumbsDown className="h-4 w-4 mt-0.5 text-amber-700" />
+                          <div className="text-sm">
+                            <p className="font-medium text-amber-900">Hardest day: {formatDisplayDate(parseDate(summary.worstDay.date), dateSettings)}</p>
+                            <p className="text-amber-800">{describeDay(summary.worstDay)}</p>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {step === 1 && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">What worked?</label>
+                    <textarea
+                      value={wentWell}
+                      onChange={(e) => setWentWell(e.target.value)}
+                      rows={3}
+                      placeholder="Habits, routines or moments that helped"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">What didn't?</label>
+                    <textarea
+                      value={didntWork}
+                      onChange={(e) => setDidntWork(e.target.value)}
+                      rows={3}
+                      placeholder="What got in the way"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {step === 2 && (
+                summary.goals.length > 0 ? (
+                  <ul className="space-y-3">
+                    {summary.goals.map(({ goal }) => {
+                      const plan = plans[goal.id];
+                      // Weekly amount targets do not depend on a number of days
+                      const actions: ReviewAction[] = goal.target_period === 'weekly' ? ['keep', 'drop'] : ['keep', 'adjust', 'drop'];
+                      return (
+                        <li key={goal.id} className="p-3 rounded-lg border border-gray-200">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="flex items-center font-medium text-gray-900">
+                              {goal.title}
+                              {goal.series_id && <Repeat className="h-3.5 w-3.5 ml-2 text-purple-600" />}
+                            </span>
+                            <div className="inline-flex rounded-lg border border-gray-200 p-0.5">
+                              {actions.map(action => (
+                                <button
+                                  key={action}
+                                  onClick={() => setPlan(goal.id, { action })}
+                                  className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+                                    plan.action === action
+                                      ? action === 'drop' ? 'bg-red-100 text-red-700' : 'bg-indigo-100 text-indigo-700'
+                                      : 'text-gray-600 hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {ACTION_LABELS[action]}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                          {plan.action === 'adjust' && (
+                            <div className="flex items-center space-x-3 text-sm">
+                              <input
+                                type="range"
+                                min="1"
+                                max="7"
+                                value={plan.targetDays}
+                                onChange={(e) => setPlan(goal.id, { targetDays: parseInt(e.target.value) })}
+                                className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                              />
+                              <span className="text-gray-700 min-w-[7rem] text-right">
+                                {goal.target_days} → {plan.targetDays} days/week
+                              </span>
+                            </div>
+                          )}
+                          {plan.action === 'drop' && (
+                            <p className="text-xs text-gray-500">
+                              {goal.series_id ? 'The habit stops repeating after this week' : 'Not carried into next week'}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No goals to carry forward. Save to keep your reflections.</p>
+                )
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+                  <p className="text-red-700 text-sm">{error}</p>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex space-x-3 pt-6">
+                <button
+                  type="button"
+                  onClick={() => (step === 0 ? onClose() : setStep(step - 1))}
+                  className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium transition-colors"
+                >
+                  {step === 0 ? 'Cancel' : 'Back'}
+                </button>
+                {step < STEPS.length - 1 ? (
+                  <button
+                    type="button"
+                    onClick={() => setStep(step + 1)}
+                    className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Next
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg font-medium transition-colors"
+                  >
+                    {saving ? 'Saving...' : 'Finish review'}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,47 @@
 import { useState, useEffect } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { OFFLINE_USER_ID } from '../lib/sync';
+
+// Stand-in account used while no database is connected
+const OFFLINE_USER = {
+  id: OFFLINE_USER_ID,
+  email: 'offline@goalsync.local',
+  aud: 'authenticated',
+  app_metadata: {},
+  user_metadata: { full_name: 'Offline mode' },
+  created_at: new Date(0).toISOString(),
+} as User;
+
+const NOT_CONFIGURED_ERROR = { message: 'Supabase not configured. Please set up your database connection.' };
+
+// Where links in auth emails (reset, magic link, email change) send people back to
+function authRedirectUrl(): string {
+  return window.location.origin + window.location.pathname;
+}
+
+// Runs an auth request, answering with an error instead of throwing when
+// there is no database configured or the server cannot be reached
+async function callAuth<T>(request: (client: NonNullable<typeof supabase>) => Promise<T>) {
+  if (!supabase) return { data: null, error: NOT_CONFIGURED_ERROR };
+
+  try {
+    return await request(supabase);
+  } catch (error) {
+    console.error('Error contacting Supabase:', error);
+    return { data: null, error: { message: 'Could not reach the server. Please check your connection.' } };
+  }
+}
 
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [user, setUser] = useState<User | null>(supabase ? null : OFFLINE_USER);
+  const [loading, setLoading] = useState(Boolean(supabase));
+  // Set while the user is signed in through a password reset link and still has to choose a new password
+  const [passwordRecovery, setPasswordRecovery] = useState(() => window.location.hash.includes('type=recovery'));
 
   useEffect(() => {
-    // Check if Supabase is properly configured
-    const isConfigured = import.meta.env.VITE_SUPABASE_URL && 
-      import.meta.env.VITE_SUPABASE_ANON_KEY &&
-      import.meta.env.VITE_SUPABASE_URL !== 'your-supabase-url' &&
-      import.meta.env.VITE_SUPABASE_ANON_KEY !== 'your-supabase-anon-key' &&
-      import.meta.env.VITE_SUPABASE_URL.startsWith('https://') &&
-      import.meta.env.VITE_SUPABASE_URL.includes('.supabase.co');
-
-    if (!isConfigured) {
-      // Skip auth initialization if Supabase is not configured
-      setLoading(false);
+    if (!supabase) {
+      // Offline mode: there is no session to restore
       return;
     }
 
@@ -33,7 +57,13 @@ export function useAuth() {
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      } else if (event === 'USER_UPDATED' || event === 'SIGNED_OUT') {
+        // Every useAuth instance hears this once the new password is saved
+        setPasswordRecovery(false);
+      }
       setUser(session?.user ?? null);
       setLoading(false);
     });
@@ -41,49 +71,46 @@ export function useAuth() {
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string) => {
-    try {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            full_name: fullName,
-          },
-        },
-      });
-      return { data, error };
-    } catch (error: any) {
-      return { data: null, error: { message: 'Supabase not configured. Please set up your database connection.' } };
-    }
-  };
+  const signUp = (email: string, password: string, fullName: string) => callAuth(client => client.auth.signUp({
+    email,
+    password,
+    options: { data: { full_name: fullName } },
+  }));
 
-  const signIn = async (email: string, password: string) => {
-    try {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-      return { data, error };
-    } catch (error: any) {
-      return { data: null, error: { message: 'Supabase not configured. Please set up your database connection.' } };
-    }
-  };
+  const signIn = (email: string, password: string) => callAuth(client => client.auth.signInWithPassword({ email, password }));
 
-  const signOut = async () => {
-    try {
-      const { error } = await supabase.auth.signOut();
-      return { error };
-    } catch (error: any) {
-      return { error: { message: 'Supabase not configured. Please set up your database connection.' } };
-    }
-  };
+  const signInWithMagicLink = (email: string) => callAuth(client => client.auth.signInWithOtp({
+    email,
+    options: {
+      // Magic links only sign in existing accounts; sign up still asks for a password
+      shouldCreateUser: false,
+      emailRedirectTo: authRedirectUrl(),
+    },
+  }));
+
+  const requestPasswordReset = (email: string) => callAuth(client => client.auth.resetPasswordForEmail(email, {
+    redirectTo: authRedirectUrl(),
+  }));
+
+  const updatePassword = (password: string) => callAuth(client => client.auth.updateUser({ password }));
+
+  // The change only takes effect once the link sent to the new address is opened
+  const changeEmail = (email: string) => callAuth(client => client.auth.updateUser({ email }, {
+    emailRedirectTo: authRedirectUrl(),
+  }));
+
+  const signOut = () => callAuth(client => client.auth.signOut());
 
   return {
     user,
     loading,
     signUp,
     signIn,
+    signInWithMagicLink,
+    requestPasswordReset,
+    updatePassword,
+    changeEmail,
+    passwordRecovery,
     signOut,
   };
 }
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { Repositories } from '../lib/repositories';
+import { DEFAULT_PREFERENCES, Preferences, isValidTimezone } from '../utils/preferences';
+import type { Day } from 'date-fns';
+import type { DateSettings } from '../utils/dates';
+import type { StreakOptions } from '../utils/streaks';
+
+export interface PreferencesState {
+  preferences: Preferences;
+  dateSettings: DateSettings;
+  streakOptions: StreakOptions;
+  loading: boolean;
+  savePreferences: (patch: Partial<Preferences>) => Promise<void>;
+}
+
+export const PreferencesContext = createContext<PreferencesState | null>(null);
+
+export function usePreferences(): PreferencesState {
+  const state = useContext(PreferencesContext);
+  if (!state) {
+    throw new Error('usePreferences must be used inside a PreferencesContext provider');
+  }
+  return state;
+}
+
+// A timezone this browser does not know falls back to the device's
+function toDateSettings(preferences: Preferences): DateSettings {
+  const timeZone = preferences.timezone && isValidTimezone(preferences.timezone) ? preferences.timezone : null;
+  return { weekStartsOn: preferences.week_starts_on as Day, timeZone };
+}
+
+// Loads the signed-in user's preferences for App to provide, along with the
+// date settings every week and "today" on screen is worked out with, and the
+// options every streak is counted with
+export function useLoadPreferences(userId: string | null, repositories: Repositories): PreferencesState {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const loadPreferences = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const row = await repositories.preferences.get(userId);
+      const loaded = row ? {
+        week_starts_on: row.week_starts_on,
+        timezone: row.timezone,
+        default_target_days: row.default_target_days,
+        units: row.units,
+        reminder_time: row.reminder_time,
+        // Missing on rows stored on this device before the column was added
+        streak_rest_days: row.streak_rest_days ?? null,
+      } : DEFAULT_PREFERENCES;
+      setPreferences(loaded);
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+    } finally {
+      setLoadedUserId(userId);
+    }
+  }, [userId, repositories]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const savePreferences = async (patch: Partial<Preferences>) => {
+    if (!userId) throw new Error('Not signed in');
+
+    await repositories.preferences.save(userId, patch);
+    setPreferences(current => ({ ...current, ...patch }));
+  };
+
+  // Still loading after a change of account, so the previous user's preferences are never used
+  const loading = Boolean(userId) && loadedUserId !== userId;
+  const dateSettings = useMemo(() => toDateSettings(preferences), [preferences]);
+  const streakOptions = useMemo<StreakOptions>(
+    () => ({ restDays: preferences.streak_rest_days ?? 'auto' }),
+    [preferences.streak_rest_days]
+  );
+
+  return { preferences, dateSettings, streakOptions, loading, savePreferences };
+}
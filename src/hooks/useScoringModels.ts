@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useRepositories } from './useRepositories';
+import { BurnoutModelConfig, BurnoutScoringModel, DEFAULT_SCORING_MODEL } from '../utils/burnout';
+
+// The user's burnout scoring models, oldest first. The built-in default is
+// always included as version 1; the newest version scores new check-ins.
+export function useScoringModels() {
+  const { user } = useAuth();
+  const repositories = useRepositories();
+  const [models, setModels] = useState<BurnoutScoringModel[]>([DEFAULT_SCORING_MODEL]);
+  const [loading, setLoading] = useState(true);
+
+  const loadModels = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const rows = await repositories.scoringModels.list(user.id);
+      setModels([
+        DEFAULT_SCORING_MODEL,
+        ...rows
+          .filter(row => row.version !== DEFAULT_SCORING_MODEL.version)
+          .map(row => ({ version: row.version, config: row.config })),
+      ]);
+    } catch (error) {
+      console.error('Error loading scoring models:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, repositories]);
+
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
+
+  const activeModel = models[models.length - 1];
+
+  const saveModel = async (config: BurnoutModelConfig): Promise<BurnoutScoringModel> => {
+    if (!user) throw new Error('Not signed in');
+
+    // Sync moves the model to the next free version if another device saved
+    // one with the same number while this one was offline
+    const row = await repositories.scoringModels.create({
+      user_id: user.id,
+      version: activeModel.version + 1,
+      config,
+    });
+    const model = { version: row.version, config: row.config };
+    setModels(current => [...current, model]);
+    return model;
+  };
+
+  return { models, activeModel, loading, saveModel };
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncState, subscribeSyncState } from '../lib/sync';
+
+export function useSyncStatus() {
+  return useSyncExternalStore(subscribeSyncState, getSyncState);
+}
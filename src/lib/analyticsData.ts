@@ -0,0 +1,229 @@
+import { addDays, subDays, eachDayOfInterval, eachMonthOfInterval, eachWeekOfInterval, endOfMonth, Day } from 'date-fns';
+import type { Repositories, Goal, Completion, Checkin } from './repositories';
+import { formatDate, getStoredWeekRange, parseDate } from '../utils/dates';
+import { getGoalProgress, isDayMet, GoalProgress } from '../utils/progress';
+import { MetricValues, WELLNESS_METRICS, readMetricValues } from '../utils/metrics';
+
+// Lower bound used when loading all history
+const EARLIEST_DATE = '0001-01-01';
+
+export interface WeekAggregate {
+  weekStart: string;
+  totalGoals: number;
+  completionRate: number; // 0-1 average progress over the week's goals
+  avgBurnoutScore: number | null; // null when there were no check-ins
+  checkinCount: number;
+}
+
+export interface GoalAggregate {
+  goal: Goal;
+  progress: GoalProgress;
+}
+
+export interface DayAggregate {
+  date: string;
+  planned: number; // goals with a completion row for the day
+  met: number;
+  checkin: Checkin | null;
+}
+
+export interface AnalyticsDataset {
+  from: string;
+  to: string;
+  goals: Goal[];
+  completions: Completion[];
+  checkins: Checkin[];
+  weeks: WeekAggregate[];
+  goalAggregates: GoalAggregate[];
+  days: DayAggregate[];
+}
+
+// Groups the raw rows of a date range into per-week, per-goal and per-day
+// aggregates. Goals count toward their week even when they have no
+// completion rows yet.
+export function aggregateAnalytics(
+  goals: Goal[],
+  completions: Completion[],
+  checkins: Checkin[],
+  from: string,
+  to: string,
+  weekStartsOn: Day
+): AnalyticsDataset {
+  const completionsByGoal = new Map<string, Completion[]>();
+  completions.forEach(completion => {
+    const list = completionsByGoal.get(completion.goal_id) || [];
+    list.push(completion);
+    completionsByGoal.set(completion.goal_id, list);
+  });
+
+  const goalAggregates = goals.map(goal => ({
+    goal,
+    progress: getGoalProgress(goal, completionsByGoal.get(goal.id) || []),
+  }));
+
+  const weeks = eachWeekOfInterval({ start: parseDate(from), end: parseDate(to) }, { weekStartsOn }).map(weekStartDate => {
+    const weekStart = formatDate(weekStartDate);
+    const weekEnd = formatDate(addDays(weekStartDate, 6));
+    const storedWeeks = getStoredWeekRange(weekStartDate);
+    const weekGoals = goalAggregates.filter(aggregate =>
+      aggregate.goal.week_start >= storedWeeks.from && aggregate.goal.week_start <= storedWeeks.to
+    );
+    const weekCheckins = checkins.filter(checkin => checkin.date >= weekStart && checkin.date <= weekEnd);
+
+    return {
+      weekStart,
+      totalGoals: weekGoals.length,
+      completionRate: weekGoals.length > 0
+        ? weekGoals.reduce((sum, aggregate) => sum + aggregate.progress.ratio, 0) / weekGoals.length
+        : 0,
+      avgBurnoutScore: weekCheckins.length > 0
+        ? weekCheckins.reduce((sum, checkin) => sum + checkin.burnout_score, 0) / weekCheckins.length
+        : null,
+      checkinCount: weekCheckins.length,
+    };
+  });
+
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  const checkinsByDate = new Map(checkins.map(checkin => [checkin.date, checkin]));
+  const completionsByDate = new Map<string, Completion[]>();
+  completions.forEach(completion => {
+    if (!goalsById.has(completion.goal_id)) return;
+    const list = completionsByDate.get(completion.date) || [];
+    list.push(completion);
+    completionsByDate.set(completion.date, list);
+  });
+
+  const days = eachDayOfInterval({ start: parseDate(from), end: parseDate(to) }).map(day => {
+    const date = formatDate(day);
+    const dayCompletions = completionsByDate.get(date) || [];
+    return {
+      date,
+      planned: dayCompletions.length,
+      met: dayCompletions.filter(completion => isDayMet(goalsById.get(completion.goal_id)!, completion)).length,
+      checkin: checkinsByDate.get(date) || null,
+    };
+  });
+
+  return { from, to, goals, completions, checkins, weeks, goalAggregates, days };
+}
+
+// Fetches everything Analytics needs for a date range in one parallel round
+// trip instead of a query per week, then aggregates it on the client. A null
+// `from` loads all history and starts the range at the earliest row.
+export async function loadAnalyticsDataset(
+  repositories: Repositories,
+  userId: string,
+  from: Date | null,
+  to: Date,
+  weekStartsOn: Day
+): Promise<AnalyticsDataset> {
+  const toDate = formatDate(to);
+  // From the start of the week `from` falls in, whichever day that week started on
+  const fetchFrom = from ? formatDate(subDays(from, 6)) : EARLIEST_DATE;
+
+  const [goals, completions, checkins] = await Promise.all([
+    repositories.goals.listByWeekRange(userId, fetchFrom, toDate),
+    repositories.completions.listByDateRange(userId, fetchFrom, toDate),
+    repositories.checkins.listByDateRange(userId, from ? formatDate(from) : EARLIEST_DATE, toDate),
+  ]);
+
+  const fromDate = from
+    ? formatDate(from)
+    : [...goals.map(goal => goal.week_start), ...checkins.map(checkin => checkin.date), toDate].sort()[0];
+
+  return aggregateAnalytics(goals, completions, checkins, fromDate, toDate, weekStartsOn);
+}
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface PeriodAggregate {
+  start: string;
+  end: string;
+  totalGoals: number;
+  completionRate: number | null; // null when nothing was planned
+  avgBurnoutScore: number | null;
+  checkinCount: number;
+  values: MetricValues; // average of each recorded metric
+}
+
+function periodStarts(from: string, to: string, granularity: Granularity, weekStartsOn: Day): Date[] {
+  const interval = { start: parseDate(from), end: parseDate(to) };
+  switch (granularity) {
+    case 'day':
+      return eachDayOfInterval(interval);
+    case 'week':
+      return eachWeekOfInterval(interval, { weekStartsOn });
+    default:
+      return eachMonthOfInterval(interval);
+  }
+}
+
+// Rolls the dataset up into days, weeks or months. Days use the share of
+// planned goal-days met; weeks and months average the progress of the
+// goals whose week starts in them.
+export function groupByPeriod(dataset: AnalyticsDataset, granularity: Granularity, weekStartsOn: Day): PeriodAggregate[] {
+  return periodStarts(dataset.from, dataset.to, granularity, weekStartsOn).map(startDate => {
+    const start = formatDate(startDate);
+    const end = formatDate(
+      granularity === 'day' ? startDate : granularity === 'week' ? addDays(startDate, 6) : endOfMonth(startDate)
+    );
+
+    const checkins = dataset.checkins.filter(checkin => checkin.date >= start && checkin.date <= end);
+    const goals = dataset.goalAggregates.filter(aggregate => aggregate.goal.week_start >= start && aggregate.goal.week_start <= end);
+
+    let completionRate: number | null = null;
+    if (granularity === 'day') {
+      const day = dataset.days.find(d => d.date === start);
+      completionRate = day && day.planned > 0 ? day.met / day.planned : null;
+    } else if (goals.length > 0) {
+      completionRate = goals.reduce((sum, aggregate) => sum + aggregate.progress.ratio, 0) / goals.length;
+    }
+
+    const values: MetricValues = {};
+    const recorded = checkins.map(checkin => readMetricValues(checkin));
+    WELLNESS_METRICS.forEach(metric => {
+      const samples = recorded.flatMap(v => typeof v[metric.key] === 'number' ? [v[metric.key]] : []);
+      if (samples.length > 0) {
+        values[metric.key] = Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length * 10) / 10;
+      }
+    });
+
+    return {
+      start,
+      end,
+      totalGoals: granularity === 'day' ? dataset.days.find(d => d.date === start)?.planned || 0 : goals.length,
+      completionRate,
+      avgBurnoutScore: checkins.length > 0
+        ? checkins.reduce((sum, checkin) => sum + checkin.burnout_score, 0) / checkins.length
+        : null,
+      checkinCount: checkins.length,
+      values,
+    };
+  });
+}
+
+export interface RollingAverage {
+  burnoutScore: number | null;
+  values: MetricValues;
+}
+
+// Trailing averages over `window` consecutive periods, using whichever
+// periods in the window have a value. Meant for day periods.
+export function rollingAverages(periods: PeriodAggregate[], window = 7): RollingAverage[] {
+  const averageOf = (samples: number[]) =>
+    samples.length > 0 ? Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length * 10) / 10 : null;
+
+  return periods.map((_, index) => {
+    const slice = periods.slice(Math.max(0, index - window + 1), index + 1);
+    const values: MetricValues = {};
+    WELLNESS_METRICS.forEach(metric => {
+      const average = averageOf(slice.flatMap(period => typeof period.values[metric.key] === 'number' ? [period.values[metric.key]] : []));
+      if (average !== null) values[metric.key] = average;
+    });
+
+    return {
+      burnoutScore: averageOf(slice.flatMap(period => period.avgBurnoutScore === null ? [] : [period.avgBurnoutScore])),
+      values,
+    };
+  });
+}
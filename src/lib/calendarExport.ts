@@ -0,0 +1,72 @@
+import type { Repositories } from './repositories';
+import { getWeekDays, getStoredWeekRange, formatDate, formatWeekRange } from '../utils/dates';
+import { listGoalsForWeek } from './weekLookup';
+import { getGoalProgress, formatTarget, isDayMet } from '../utils/progress';
+import { buildAppLink } from '../utils/deepLinks';
+import { createIcs, IcsEvent } from '../utils/ical';
+
+export interface CalendarOptions {
+  goalTime: string | null; // one all-day event per goal for the week when null
+  checkinTime: string | null; // no check-in reminders when null
+  appUrl: string;
+}
+
+const CHECKIN_MINUTES = 15;
+
+// Builds an .ics file with a week's goals and a daily wellness check-in.
+// Timed goal events are left out for days the goal is already done.
+export async function buildWeekCalendar(
+  repositories: Repositories,
+  userId: string,
+  weekStart: Date,
+  options: CalendarOptions
+): Promise<string> {
+  const { goalTime, checkinTime, appUrl } = options;
+  const weekDates = getWeekDays(weekStart).map(day => formatDate(day));
+  const { from, lastDay } = getStoredWeekRange(weekStart);
+  const [goals, completions] = await Promise.all([
+    listGoalsForWeek(repositories, userId, weekStart),
+    repositories.completions.listByDateRange(userId, from, lastDay),
+  ]);
+
+  const events: IcsEvent[] = goals.flatMap((goal): IcsEvent[] => {
+    const entries = completions.filter(completion => completion.goal_id === goal.id);
+    const progress = getGoalProgress(goal, entries);
+    const url = buildAppLink(appUrl, { week: weekDates[0], goal: goal.id });
+    const description = [goal.description, `Target: ${formatTarget(goal)}`, `This week: ${progress.label}`, url]
+      .filter(Boolean)
+      .join('\n');
+
+    if (!goalTime) {
+      return [{ uid: `goal-${goal.id}@goalsync`, summary: goal.title, description, url, date: weekDates[0], days: 7 }];
+    }
+
+    return weekDates
+      .filter(date => !entries.some(entry => entry.date === date && isDayMet(goal, entry)))
+      .map(date => ({
+        uid: `goal-${goal.id}-${date}@goalsync`,
+        summary: goal.title,
+        description,
+        url,
+        date,
+        time: goalTime,
+      }));
+  });
+
+  if (checkinTime) {
+    weekDates.forEach(date => {
+      const url = buildAppLink(appUrl, { checkin: date });
+      events.push({
+        uid: `checkin-${userId}-${date}@goalsync`,
+        summary: 'Wellness check-in',
+        description: `How was your day? Log stress, sleep and mood in GoalSync.\n${url}`,
+        url,
+        date,
+        time: checkinTime,
+        durationMinutes: CHECKIN_MINUTES,
+      });
+    });
+  }
+
+  return createIcs(`GoalSync · ${formatWeekRange(weekStart)}`, events);
+}
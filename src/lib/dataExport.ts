@@ -0,0 +1,104 @@
+import type { User } from '@supabase/supabase-js';
+import { subDays } from 'date-fns';
+import type { Database } from './supabase';
+import type { Repositories } from './repositories';
+import { loadProfile, accountProfile } from './profile';
+import { formatDate, parseDate } from '../utils/dates';
+import { toCsv } from '../utils/csv';
+import { createZip } from '../utils/zip';
+
+type Tables = Database['public']['Tables'];
+
+export type ExportTable = 'profiles' | 'goals' | 'daily_completions' | 'burnout_checkins';
+
+// Bumped whenever the shape of an exported row changes, so imports can tell
+// which version of the app wrote a file.
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportBundle {
+  app: 'goalsync';
+  schema_version: number;
+  exported_at: string;
+  range: { from: string | null; to: string | null };
+  tables: { [T in ExportTable]: Tables[T]['Row'][] };
+}
+
+// Column order of each table's CSV
+export const EXPORT_COLUMNS: { [T in ExportTable]: (keyof Tables[T]['Row'] & string)[] } = {
+  profiles: ['id', 'email', 'full_name', 'created_at'],
+  goals: [
+    'id', 'user_id', 'title', 'description', 'target_days', 'unit', 'target_amount',
+    'target_period', 'week_start', 'series_id', 'created_at', 'updated_at',
+  ],
+  daily_completions: ['id', 'goal_id', 'user_id', 'date', 'completed', 'value', 'created_at', 'updated_at'],
+  burnout_checkins: [
+    'id', 'user_id', 'date', 'stress_level', 'sleep_hours', 'mood_level', 'time_spent_hours',
+    'burnout_score', 'model_version', 'extras', 'created_at', 'updated_at',
+  ],
+};
+
+// Lower bound used when exporting everything
+const EARLIEST_DATE = '0001-01-01';
+const LATEST_DATE = '9999-12-31';
+
+// Collects the user's rows for a date range; either end may be left open.
+// Goals are included by their week, so a range starting mid-week still
+// carries the goals its completions belong to.
+export async function buildExportBundle(
+  repositories: Repositories,
+  user: User,
+  from: string | null,
+  to: string | null
+): Promise<ExportBundle> {
+  const fromDate = from || EARLIEST_DATE;
+  const toDate = to || LATEST_DATE;
+  const fromWeek = from ? formatDate(subDays(parseDate(from), 6)) : EARLIEST_DATE;
+
+  const [profile, goals, completions, checkins] = await Promise.all([
+    // The profile is a nicety; an unreachable server should not stop the export
+    loadProfile(user).catch(error => {
+      console.error('Error loading profile for export:', error);
+      return accountProfile(user);
+    }),
+    repositories.goals.listByWeekRange(user.id, fromWeek, toDate),
+    repositories.completions.listByDateRange(user.id, fromDate, toDate),
+    repositories.checkins.listByDateRange(user.id, fromDate, toDate),
+  ]);
+
+  return {
+    app: 'goalsync',
+    schema_version: EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    range: { from, to },
+    tables: {
+      profiles: [profile],
+      goals,
+      daily_completions: completions.sort((a, b) => a.date.localeCompare(b.date)),
+      burnout_checkins: checkins,
+    },
+  };
+}
+
+export function exportBundleToJson(bundle: ExportBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+// One CSV per table, plus a small manifest with the schema version
+export function exportBundleToZip(bundle: ExportBundle): Uint8Array {
+  const tables = Object.keys(EXPORT_COLUMNS) as ExportTable[];
+  return createZip([
+    ...tables.map(table => ({
+      name: `${table}.csv`,
+      content: toCsv(bundle.tables[table] as Record<string, unknown>[], EXPORT_COLUMNS[table]),
+    })),
+    {
+      name: 'manifest.json',
+      content: JSON.stringify({
+        app: bundle.app,
+        schema_version: bundle.schema_version,
+        exported_at: bundle.exported_at,
+        range: bundle.range,
+      }, null, 2),
+    },
+  ]);
+}
@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  ImportData,
+  ImportedGoal,
+  applyImport,
+  habitLogToImport,
+  planImport,
+  readGenericCsv,
+  readGoalSyncExport,
+  readLoopCsv,
+} from './dataImport';
+import { createGoalForWeek } from './goalPlanner';
+import { Repositories, createMemoryBackend, createRepositories } from './repositories';
+import { DateSettings, parseDate } from '../utils/dates';
+import { parseCsv } from '../utils/csv';
+
+const USER_ID = 'user-1';
+const MONDAY_WEEKS: DateSettings = { weekStartsOn: 1, timeZone: null };
+const SUNDAY_WEEKS: DateSettings = { weekStartsOn: 0, timeZone: null };
+
+function importedGoal(title: string, weekStart: string): ImportedGoal {
+  return { title, description: null, target_days: 5, unit: null, target_amount: null, target_period: null, week_start: weekStart };
+}
+
+function importData(goals: ImportedGoal[], completions: ImportData['completions']): ImportData {
+  return { goals, completions, checkins: [], skippedRows: 0 };
+}
+
+describe('readLoopCsv', () => {
+  it('counts ticked days as done and leaves out unknown days', () => {
+    const log = readLoopCsv(parseCsv('Date,Walk,Read\n2026-10-12,2,0\n2026-10-13,1,-1\nnot a date,2,2\n'));
+
+    expect(log.habits).toEqual(['Walk', 'Read']);
+    expect(log.entries).toEqual([
+      { title: 'Walk', date: '2026-10-12', completed: true, value: null },
+      { title: 'Read', date: '2026-10-12', completed: false, value: null },
+      { title: 'Walk', date: '2026-10-13', completed: false, value: null },
+    ]);
+    expect(log.skippedRows).toBe(1);
+  });
+
+  it('rejects a file without a Date column first', () => {
+    expect(() => readLoopCsv(parseCsv('Habit,Done\nWalk,1\n'))).toThrow(/Loop Habit Tracker/);
+  });
+});
+
+describe('readGenericCsv', () => {
+  const rows = parseCsv('Day,Habit,Done\n12/10/2026,Read,yes\n13/10/2026, read ,0\n14/10/2026,,x\nsoon,Read,1\n');
+
+  it('reads mapped columns and merges titles that differ only in case', () => {
+    const log = readGenericCsv(rows, { dateColumn: 0, goalColumn: 1, doneColumn: 2, dateFormat: 'dd/MM/yyyy' });
+
+    expect(log.habits).toEqual(['Read']);
+    expect(log.entries).toEqual([
+      { title: 'Read', date: '2026-10-12', completed: true, value: null },
+      { title: 'Read', date: '2026-10-13', completed: false, value: null },
+    ]);
+    expect(log.skippedRows).toBe(2);
+  });
+
+  it('counts every row as done without a done column', () => {
+    const log = readGenericCsv(rows, { dateColumn: 0, goalColumn: 1, doneColumn: null, dateFormat: 'dd/MM/yyyy' });
+    expect(log.entries.every(entry => entry.completed)).toBe(true);
+  });
+});
+
+describe('habitLogToImport', () => {
+  const log = {
+    habits: ['Walk', 'Read'],
+    entries: [
+      { title: 'Walk', date: '2026-10-11', completed: true, value: null },
+      { title: 'Walk', date: '2026-10-12', completed: true, value: null },
+      { title: 'Read', date: '2026-10-12', completed: true, value: null },
+    ],
+    skippedRows: 0,
+  };
+
+  it('makes one goal per habit and week with the chosen target', () => {
+    const data = habitLogToImport(log, { Walk: 3 }, MONDAY_WEEKS);
+
+    expect(data.goals.map(goal => [goal.title, goal.week_start, goal.target_days])).toEqual([
+      ['Walk', '2026-10-05', 3],
+      ['Walk', '2026-10-12', 3],
+    ]);
+    expect(data.completions.map(entry => entry.title)).toEqual(['Walk', 'Walk']);
+  });
+
+  it('groups days by the preferred start of the week', () => {
+    const data = habitLogToImport(log, { Walk: 3 }, SUNDAY_WEEKS);
+    expect(data.goals.map(goal => goal.week_start)).toEqual(['2026-10-11']);
+  });
+});
+
+describe('planImport and applyImport', () => {
+  let repositories: Repositories;
+  let readGoalId: string;
+
+  beforeEach(async () => {
+    repositories = createRepositories(createMemoryBackend());
+    const goal = await createGoalForWeek(repositories, USER_ID, parseDate('2026-10-12'), {
+      title: 'Read',
+      description: null,
+      target_days: 5,
+    });
+    readGoalId = goal.id;
+    await repositories.completions.setCompleted(USER_ID, goal.id, '2026-10-12', true);
+    await repositories.completions.setCompleted(USER_ID, goal.id, '2026-10-13', true);
+  });
+
+  const data = importData(
+    [importedGoal('read', '2026-10-12'), importedGoal('Walk', '2026-10-12')],
+    [
+      { title: 'read', date: '2026-10-12', completed: true, value: null },
+      { title: 'read', date: '2026-10-13', completed: true, value: 20 },
+      { title: 'read', date: '2026-10-14', completed: true, value: null },
+      { title: 'read', date: '2026-10-14', completed: true, value: null },
+      { title: 'Walk', date: '2026-10-15', completed: true, value: null },
+    ]
+  );
+
+  it('sorts imported days into new, duplicate and conflicting', async () => {
+    const plan = await planImport(repositories, USER_ID, data, MONDAY_WEEKS);
+    const read = plan.goals.find(planned => planned.goal.title === 'read')!;
+    const walk = plan.goals.find(planned => planned.goal.title === 'Walk')!;
+
+    expect(read.existing?.id).toBe(readGoalId);
+    expect(read.days.map(day => [day.date, day.status])).toEqual([
+      ['2026-10-12', 'duplicate'],
+      ['2026-10-13', 'conflict'],
+      ['2026-10-14', 'new'],
+    ]);
+    expect(walk.existing).toBeNull();
+    expect(plan.repeatedRows).toBe(1);
+  });
+
+  it('writes only new goals and days, and finds nothing new a second time', async () => {
+    const result = await applyImport(repositories, USER_ID, await planImport(repositories, USER_ID, data, MONDAY_WEEKS));
+    expect(result).toEqual({ goals: 1, days: 2, checkins: 0 });
+
+    const completions = await repositories.completions.listByDateRange(USER_ID, '2026-10-12', '2026-10-18');
+    const readDays = completions.filter(completion => completion.goal_id === readGoalId);
+    expect(readDays.find(day => day.date === '2026-10-13')?.value).toBeNull();
+    expect(readDays.find(day => day.date === '2026-10-14')?.completed).toBe(true);
+    expect(completions.filter(completion => completion.goal_id !== readGoalId)).toHaveLength(7);
+
+    const again = await planImport(repositories, USER_ID, data, MONDAY_WEEKS);
+    expect(again.goals.every(planned => planned.existing)).toBe(true);
+    expect(again.goals.flatMap(planned => planned.days).some(day => day.status === 'new')).toBe(false);
+  });
+
+  it('matches a stored goal whose week started on another day', async () => {
+    const sundayGoal = await createGoalForWeek(repositories, USER_ID, parseDate('2026-10-04'), {
+      title: 'Read',
+      description: null,
+      target_days: 5,
+    });
+    const plan = await planImport(repositories, USER_ID, importData(
+      [importedGoal('Read', '2026-10-05')],
+      [
+        { title: 'Read', date: '2026-10-06', completed: true, value: null },
+        { title: 'Read', date: '2026-10-11', completed: true, value: null },
+      ]
+    ), MONDAY_WEEKS);
+
+    expect(plan.goals[0].existing?.id).toBe(sundayGoal.id);
+    expect(plan.goals[0].days.map(day => day.date)).toEqual(['2026-10-06']);
+    expect(plan.skippedRows).toBe(1);
+  });
+});
+
+describe('readGoalSyncExport', () => {
+  const bundle = {
+    app: 'goalsync',
+    schema_version: 1,
+    exported_at: '2026-10-18T12:00:00.000Z',
+    range: { from: null, to: null },
+    tables: {
+      profiles: [],
+      goals: [{ id: 'goal-1', title: 'Read', description: null, target_days: 5, unit: null, target_amount: null, target_period: null, week_start: '2026-10-11' }],
+      daily_completions: [
+        { id: 'day-1', goal_id: 'goal-1', date: '2026-10-17', completed: true, value: null },
+        { id: 'day-2', goal_id: 'goal-1', date: '2026-10-16', completed: false, value: null },
+        { id: 'day-3', goal_id: 'missing', date: '2026-10-16', completed: true, value: null },
+      ],
+      burnout_checkins: [],
+    },
+  };
+
+  it('keeps the week each completion was exported with', async () => {
+    const data = readGoalSyncExport(JSON.stringify(bundle));
+    expect(data.completions).toEqual([
+      { title: 'Read', date: '2026-10-17', completed: true, value: null, week_start: '2026-10-11' },
+    ]);
+    expect(data.skippedRows).toBe(1);
+
+    // Saturday falls in the Monday week of the 12th, but the exported goal's week started on Sunday the 11th
+    const plan = await planImport(createRepositories(createMemoryBackend()), USER_ID, data, MONDAY_WEEKS);
+    expect(plan.goals[0].days.map(day => day.date)).toEqual(['2026-10-17']);
+    expect(plan.skippedRows).toBe(1);
+  });
+
+  it('counts completions without an imported goal as skipped', async () => {
+    const plan = await planImport(createRepositories(createMemoryBackend()), USER_ID, importData(
+      [importedGoal('Read', '2026-10-12')],
+      [{ title: 'Walk', date: '2026-10-13', completed: true, value: null }]
+    ), MONDAY_WEEKS);
+    expect(plan.skippedRows).toBe(1);
+  });
+
+  it('refuses files from a newer version', () => {
+    expect(() => readGoalSyncExport(JSON.stringify({ ...bundle, schema_version: 99 }))).toThrow(/newer version/);
+  });
+});
@@ -0,0 +1,490 @@
+import { differenceInCalendarDays, isValid, parse } from 'date-fns';
+import type { Repositories, Goal, GoalInsert, Completion, CompletionInsert, CheckinInsert } from './repositories';
+import { EXPORT_SCHEMA_VERSION, ExportBundle } from './dataExport';
+import { formatDate, getWeekDays, getWeekStart, getStoredWeekRange, parseDate, DateSettings } from '../utils/dates';
+
+export type ImportSource = 'loop' | 'generic' | 'goalsync';
+
+export type ImportedGoal = Required<Pick<
+  GoalInsert,
+  'title' | 'description' | 'target_days' | 'unit' | 'target_amount' | 'target_period' | 'week_start'
+>>;
+
+export interface ImportedCompletion {
+  title: string;
+  date: string;
+  completed: boolean;
+  value: number | null;
+  week_start?: string; // the week of the goal it was exported with, if known
+}
+
+export type ImportedCheckin = Omit<CheckinInsert, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export interface ImportData {
+  goals: ImportedGoal[];
+  completions: ImportedCompletion[];
+  checkins: ImportedCheckin[];
+  skippedRows: number;
+}
+
+// Days per habit read from a tracker's CSV, before they are grouped into weekly goals
+export interface HabitLog {
+  habits: string[];
+  entries: ImportedCompletion[];
+  skippedRows: number;
+}
+
+export interface GenericCsvMapping {
+  dateColumn: number;
+  goalColumn: number;
+  doneColumn: number | null; // without one, every row counts as done
+  dateFormat: string;
+}
+
+export const DATE_FORMATS = [
+  { value: 'yyyy-MM-dd', example: '2025-08-31' },
+  { value: 'MM/dd/yyyy', example: '08/31/2025' },
+  { value: 'dd/MM/yyyy', example: '31/08/2025' },
+  { value: 'dd.MM.yyyy', example: '31.08.2025' },
+];
+
+const DONE_VALUES = ['1', 'true', 'yes', 'y', 'x', 'done', 'completed', '✓', '✔'];
+
+// Loop Habit Tracker checkmark values; 1 is a day Loop filled in from the
+// habit's frequency rather than one the user ticked, so it is not counted.
+const LOOP_CHECKED = '2';
+const LOOP_UNKNOWN = '-1';
+
+function titleKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+function parseCsvDate(text: string, dateFormat: string): string | null {
+  const value = dateFormat === 'yyyy-MM-dd' ? text.trim().slice(0, 10) : text.trim();
+  const date = parse(value, dateFormat, new Date());
+  return isValid(date) ? formatDate(date) : null;
+}
+
+function isDoneValue(text: string): boolean {
+  const value = text.trim().toLowerCase();
+  return DONE_VALUES.includes(value) || Number(value) > 0;
+}
+
+// Loop's Checkmarks.csv: a Date column followed by one column per habit
+export function readLoopCsv(rows: string[][]): HabitLog {
+  const [header = [], ...body] = rows;
+  if (header[0]?.trim().toLowerCase() !== 'date' || header.length < 2) {
+    throw new Error('This does not look like a Loop Habit Tracker checkmarks export.');
+  }
+
+  const columns = header
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter(column => column.index > 0 && column.name !== '');
+  const entries: ImportedCompletion[] = [];
+  let skippedRows = 0;
+
+  body.forEach(row => {
+    const date = parseCsvDate(row[0] || '', 'yyyy-MM-dd');
+    if (!date) {
+      skippedRows++;
+      return;
+    }
+    columns.forEach(column => {
+      const value = (row[column.index] || '').trim();
+      if (value === '' || value === LOOP_UNKNOWN) return;
+      entries.push({ title: column.name, date, completed: value === LOOP_CHECKED, value: null });
+    });
+  });
+
+  return { habits: columns.map(column => column.name), entries, skippedRows };
+}
+
+// Picks likely columns for a date/goal/done CSV from its header
+export function guessGenericMapping(header: string[]): GenericCsvMapping {
+  const find = (pattern: RegExp) => header.findIndex(name => pattern.test(name));
+  const dateColumn = find(/date|day/i);
+  const goalColumn = find(/goal|habit|title|name|task/i);
+  const doneColumn = find(/done|complete|status|check/i);
+
+  return {
+    dateColumn: Math.max(0, dateColumn),
+    goalColumn: goalColumn >= 0 ? goalColumn : Math.min(1, header.length - 1),
+    doneColumn: doneColumn >= 0 ? doneColumn : null,
+    dateFormat: 'yyyy-MM-dd',
+  };
+}
+
+export function readGenericCsv(rows: string[][], mapping: GenericCsvMapping): HabitLog {
+  const habits = new Map<string, string>();
+  const entries: ImportedCompletion[] = [];
+  let skippedRows = 0;
+
+  rows.slice(1).forEach(row => {
+    const date = parseCsvDate(row[mapping.dateColumn] || '', mapping.dateFormat);
+    const title = (row[mapping.goalColumn] || '').trim();
+    if (!date || !title) {
+      skippedRows++;
+      return;
+    }
+    if (!habits.has(titleKey(title))) habits.set(titleKey(title), title);
+    entries.push({
+      title: habits.get(titleKey(title))!,
+      date,
+      completed: mapping.doneColumn === null || isDoneValue(row[mapping.doneColumn] || ''),
+      value: null,
+    });
+  });
+
+  return { habits: [...habits.values()], entries, skippedRows };
+}
+
+// Turns a habit log into one goal per habit and week that has any entries.
+// Habits missing from targetDays are left out.
+export function habitLogToImport(log: HabitLog, targetDays: Record<string, number>, settings: DateSettings): ImportData {
+  const goals = new Map<string, ImportedGoal>();
+  const entries = log.entries.filter(entry => targetDays[entry.title] !== undefined);
+
+  entries.forEach(entry => {
+    const weekStart = formatDate(getWeekStart(parseDate(entry.date), settings));
+    const key = `${weekStart}|${titleKey(entry.title)}`;
+    if (goals.has(key)) return;
+    goals.set(key, {
+      title: entry.title,
+      description: null,
+      target_days: targetDays[entry.title],
+      unit: null,
+      target_amount: null,
+      target_period: null,
+      week_start: weekStart,
+    });
+  });
+
+  return { goals: [...goals.values()], completions: entries, checkins: [], skippedRows: log.skippedRows };
+}
+
+// Re-imports a file written by the JSON export. Goals and check-ins get new
+// ids, so a bundle can be loaded into another account as well as this one.
+export function readGoalSyncExport(text: string): ImportData {
+  let bundle: ExportBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  if (bundle?.app !== 'goalsync' || typeof bundle.schema_version !== 'number' || !bundle.tables) {
+    throw new Error('This file is not a GoalSync export.');
+  }
+  if (bundle.schema_version > EXPORT_SCHEMA_VERSION) {
+    throw new Error('This file was exported by a newer version of GoalSync. Update the app and try again.');
+  }
+
+  const { goals = [], daily_completions = [], burnout_checkins = [] } = bundle.tables;
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  let skippedRows = 0;
+
+  const completions: ImportedCompletion[] = [];
+  daily_completions.forEach(completion => {
+    const goal = goalsById.get(completion.goal_id);
+    if (!goal) {
+      skippedRows++;
+      return;
+    }
+    if (!completion.completed && completion.value === null) return;
+    completions.push({
+      title: goal.title,
+      date: completion.date,
+      completed: completion.completed,
+      value: completion.value,
+      week_start: goal.week_start,
+    });
+  });
+
+  return {
+    goals: goals.map(goal => ({
+      title: goal.title,
+      description: goal.description,
+      target_days: goal.target_days,
+      unit: goal.unit,
+      target_amount: goal.target_amount,
+      target_period: goal.target_period,
+      week_start: goal.week_start,
+    })),
+    completions,
+    checkins: burnout_checkins.map(checkin => ({
+      date: checkin.date,
+      stress_level: checkin.stress_level,
+      sleep_hours: checkin.sleep_hours,
+      mood_level: checkin.mood_level,
+      time_spent_hours: checkin.time_spent_hours,
+      burnout_score: checkin.burnout_score,
+      model_version: checkin.model_version,
+      extras: checkin.extras || {},
+    })),
+    skippedRows,
+  };
+}
+
+// 'conflict' means the day already has a different entry, which is kept
+export type ImportDayStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface PlannedDay extends ImportedCompletion {
+  status: ImportDayStatus;
+  hasRow: boolean; // the existing goal already has a completion row for this day
+}
+
+export interface PlannedGoal {
+  goal: ImportedGoal;
+  existing: Goal | null;
+  days: PlannedDay[];
+}
+
+export interface PlannedCheckin {
+  checkin: ImportedCheckin;
+  duplicate: boolean;
+}
+
+export interface ImportPlan {
+  goals: PlannedGoal[];
+  checkins: PlannedCheckin[];
+  skippedRows: number;
+  repeatedRows: number; // the same goal and day more than once in the file
+}
+
+export interface ImportGoalSummary {
+  title: string;
+  weeks: number;
+  newWeeks: number;
+  daysDone: number;
+  newDays: number;
+  duplicateDays: number;
+  conflictDays: number;
+}
+
+function goalKey(weekStart: string, title: string): string {
+  return `${weekStart}|${titleKey(title)}`;
+}
+
+function isInWeek(weekStart: string, date: string): boolean {
+  const offset = differenceInCalendarDays(parseDate(date), parseDate(weekStart));
+  return offset >= 0 && offset < 7;
+}
+
+function sameEntry(completion: Completion, entry: ImportedCompletion): boolean {
+  return completion.completed === entry.completed && completion.value === entry.value;
+}
+
+// Matches imported data against what is already stored, without writing anything
+export async function planImport(
+  repositories: Repositories,
+  userId: string,
+  data: ImportData,
+  settings: DateSettings
+): Promise<ImportPlan> {
+  const weeks = data.goals.map(goal => goal.week_start).sort();
+  const checkinDates = data.checkins.map(checkin => checkin.date).sort();
+  const firstWeek = weeks.length ? getStoredWeekRange(parseDate(weeks[0])) : null;
+  const lastWeek = weeks.length ? getStoredWeekRange(parseDate(weeks[weeks.length - 1])) : null;
+
+  const [existingGoals, existingCompletions, existingCheckins] = await Promise.all([
+    firstWeek && lastWeek
+      ? repositories.goals.listByWeekRange(userId, firstWeek.from, lastWeek.to)
+      : Promise.resolve([]),
+    firstWeek && lastWeek
+      ? repositories.completions.listByDateRange(userId, firstWeek.from, lastWeek.lastDay)
+      : Promise.resolve([]),
+    checkinDates.length
+      ? repositories.checkins.listByDateRange(userId, checkinDates[0], checkinDates[checkinDates.length - 1])
+      : Promise.resolve([]),
+  ]);
+
+  // A stored goal matches an imported week it falls in, as listGoalsForWeek
+  // finds it, even when the two weeks start on different days
+  const findExisting = (goal: ImportedGoal) => {
+    const { from, to } = getStoredWeekRange(parseDate(goal.week_start));
+    return existingGoals.find(existing =>
+      existing.week_start >= from &&
+      existing.week_start <= to &&
+      titleKey(existing.title) === titleKey(goal.title)
+    ) || null;
+  };
+  const completionsByDay = new Map(existingCompletions.map(completion => [
+    `${completion.goal_id}|${completion.date}`,
+    completion,
+  ]));
+
+  const planned = new Map<string, PlannedGoal>();
+  data.goals.forEach(goal => {
+    const key = goalKey(goal.week_start, goal.title);
+    if (!planned.has(key)) planned.set(key, { goal, existing: findExisting(goal), days: [] });
+  });
+
+  const seenDays = new Set<string>();
+  let skippedRows = data.skippedRows;
+  let repeatedRows = 0;
+  data.completions.forEach(entry => {
+    // Exported weeks may start on a different day than the current preference
+    const weekStart = entry.week_start || formatDate(getWeekStart(parseDate(entry.date), settings));
+    const plannedGoal = planned.get(goalKey(weekStart, entry.title));
+    if (!plannedGoal) {
+      skippedRows++;
+      return;
+    }
+
+    // The stored goal's week can start on another day and miss an edge day of the imported week
+    if (plannedGoal.existing && !isInWeek(plannedGoal.existing.week_start, entry.date)) {
+      skippedRows++;
+      return;
+    }
+
+    const dayKey = `${titleKey(entry.title)}|${entry.date}`;
+    if (seenDays.has(dayKey)) {
+      repeatedRows++;
+      return;
+    }
+    seenDays.add(dayKey);
+
+    // Unticked days only matter when they fill in a new goal's week
+    const recorded = entry.completed || entry.value !== null;
+    const existing = plannedGoal.existing
+      ? completionsByDay.get(`${plannedGoal.existing.id}|${entry.date}`)
+      : undefined;
+    if (plannedGoal.existing && !recorded) return;
+
+    let status: ImportDayStatus = 'new';
+    if (existing && sameEntry(existing, entry)) status = 'duplicate';
+    else if (existing && (existing.completed || existing.value !== null)) status = 'conflict';
+    plannedGoal.days.push({ ...entry, status, hasRow: Boolean(existing) });
+  });
+
+  const checkinsByDate = new Set(existingCheckins.map(checkin => checkin.date));
+  const seenCheckins = new Set<string>();
+  const checkins: PlannedCheckin[] = [];
+  data.checkins.forEach(checkin => {
+    if (seenCheckins.has(checkin.date)) {
+      repeatedRows++;
+      return;
+    }
+    seenCheckins.add(checkin.date);
+    checkins.push({ checkin, duplicate: checkinsByDate.has(checkin.date) });
+  });
+
+  return {
+    goals: [...planned.values()].sort((a, b) =>
+      a.goal.week_start.localeCompare(b.goal.week_start) || a.goal.title.localeCompare(b.goal.title)
+    ),
+    checkins,
+    skippedRows,
+    repeatedRows,
+  };
+}
+
+export function summarizeImportPlan(plan: ImportPlan): ImportGoalSummary[] {
+  const summaries = new Map<string, ImportGoalSummary>();
+
+  plan.goals.forEach(({ goal, existing, days }) => {
+    const key = titleKey(goal.title);
+    const summary = summaries.get(key) || {
+      title: goal.title,
+      weeks: 0,
+      newWeeks: 0,
+      daysDone: 0,
+      newDays: 0,
+      duplicateDays: 0,
+      conflictDays: 0,
+    };
+    summary.weeks++;
+    if (!existing) summary.newWeeks++;
+    days.forEach(day => {
+      if (day.completed) summary.daysDone++;
+      if (day.status === 'duplicate') summary.duplicateDays++;
+      else if (day.status === 'conflict') summary.conflictDays++;
+      else if (day.completed || day.value !== null) summary.newDays++;
+    });
+    summaries.set(key, summary);
+  });
+
+  return [...summaries.values()].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export interface ImportResult {
+  goals: number;
+  days: number;
+  checkins: number;
+}
+
+// Writes the planned goals, days and check-ins. Duplicates and conflicts are
+// skipped, so the user's existing entries always win.
+export async function applyImport(repositories: Repositories, userId: string, plan: ImportPlan): Promise<ImportResult> {
+  const newGoals = plan.goals.filter(planned => !planned.existing);
+  const created = await repositories.goals.createMany(newGoals.map(({ goal }) => ({
+    ...goal,
+    user_id: userId,
+    series_id: null,
+  })));
+  const createdByKey = new Map(created.map(goal => [goalKey(goal.week_start, goal.title), goal]));
+
+  const inserts: CompletionInsert[] = [];
+  let days = 0;
+
+  for (const planned of plan.goals) {
+    const daysByDate = new Map(planned.days.map(day => [day.date, day]));
+
+    if (!planned.existing) {
+      const goal = createdByKey.get(goalKey(planned.goal.week_start, planned.goal.title))!;
+      getWeekDays(parseDate(goal.week_start)).forEach(weekDay => {
+        const date = formatDate(weekDay);
+        const day = daysByDate.get(date);
+        if (day && (day.completed || day.value !== null)) days++;
+        inserts.push({
+          goal_id: goal.id,
+          user_id: userId,
+          date,
+          completed: day?.completed ?? false,
+          value: day?.value ?? null,
+        });
+      });
+      continue;
+    }
+
+    const goal = planned.existing;
+    for (const day of planned.days) {
+      if (day.status !== 'new') continue;
+      days++;
+      // Every goal is created with a row per day, but older data may lack one
+      if (day.hasRow) {
+        await repositories.completions.setValue(userId, goal.id, day.date, day.value, day.completed);
+      } else {
+        inserts.push({ goal_id: goal.id, user_id: userId, date: day.date, completed: day.completed, value: day.value });
+      }
+    }
+  }
+
+  if (inserts.length > 0) await repositories.completions.createMany(inserts);
+
+  const newCheckins = plan.checkins.filter(planned => !planned.duplicate);
+  for (const { checkin } of newCheckins) {
+    await repositories.checkins.create({ ...checkin, user_id: userId });
+  }
+
+  return { goals: created.length, days, checkins: newCheckins.length };
+}
+
+// A starting target for each habit: how many days a week it was usually done
+export function suggestTargetDays(log: HabitLog, settings: DateSettings): Record<string, number> {
+  const weeks = new Map<string, Set<string>>();
+  const done = new Map<string, number>();
+
+  log.entries.forEach(entry => {
+    const weekStart = formatDate(getWeekStart(parseDate(entry.date), settings));
+    if (!weeks.has(entry.title)) weeks.set(entry.title, new Set());
+    weeks.get(entry.title)!.add(weekStart);
+    if (entry.completed) done.set(entry.title, (done.get(entry.title) || 0) + 1);
+  });
+
+  return Object.fromEntries(log.habits.map(title => {
+    const weekCount = weeks.get(title)?.size || 0;
+    const average = weekCount ? (done.get(title) || 0) / weekCount : 0;
+    return [title, Math.min(7, Math.max(1, Math.round(average)))];
+  }));
+}
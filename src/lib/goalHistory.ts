@@ -0,0 +1,62 @@
+import { addDays } from 'date-fns';
+import type { Repositories, Goal } from './repositories';
+import { formatDate, parseDate } from '../utils/dates';
+import type { GoalWeek } from '../utils/streaks';
+
+// Loads every instance in each group with its completions, using a single
+// completions query that spans all of the groups.
+async function loadHistories(
+  repositories: Repositories,
+  userId: string,
+  groups: Map<string, Goal[]>
+): Promise<Map<string, GoalWeek[]>> {
+  const weekStarts = [...groups.values()].flat().map(goal => goal.week_start).sort();
+  if (weekStarts.length === 0) return new Map();
+
+  const completions = await repositories.completions.listByDateRange(
+    userId,
+    weekStarts[0],
+    formatDate(addDays(parseDate(weekStarts[weekStarts.length - 1]), 6))
+  );
+
+  const histories = new Map<string, GoalWeek[]>();
+  groups.forEach((instances, key) => {
+    histories.set(key, instances.map(instance => ({
+      week_start: instance.week_start,
+      target: instance,
+      entries: completions.filter(c => c.goal_id === instance.id),
+    })));
+  });
+  return histories;
+}
+
+// History of each recurring series, keyed by series id
+export async function loadSeriesHistories(
+  repositories: Repositories,
+  userId: string,
+  seriesIds: string[]
+): Promise<Map<string, GoalWeek[]>> {
+  const groups = new Map(await Promise.all(seriesIds.map(async seriesId =>
+    [seriesId, await repositories.goals.listBySeries(userId, seriesId)] as const
+  )));
+  return loadHistories(repositories, userId, groups);
+}
+
+// History of each goal, keyed by goal id. Series instances bring along the
+// earlier and later weeks of their series; one-off goals only have their own week.
+export async function loadGoalHistories(
+  repositories: Repositories,
+  userId: string,
+  goals: Goal[]
+): Promise<Map<string, GoalWeek[]>> {
+  const seriesIds = [...new Set(goals.flatMap(goal => goal.series_id ? [goal.series_id] : []))];
+  const seriesInstances = new Map(await Promise.all(seriesIds.map(async seriesId =>
+    [seriesId, await repositories.goals.listBySeries(userId, seriesId)] as const
+  )));
+
+  const groups = new Map(goals.map(goal => [
+    goal.id,
+    goal.series_id ? seriesInstances.get(goal.series_id) || [goal] : [goal],
+  ]));
+  return loadHistories(repositories, userId, groups);
+}
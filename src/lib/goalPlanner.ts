@@ -0,0 +1,225 @@
+import type { Repositories, Goal, GoalUpdate, GoalSeries } from './repositories';
+import { getWeekDays, getCurrentWeekStart, getStoredWeekRange, formatDate, parseDate, shiftWeek, DateSettings } from '../utils/dates';
+import { listGoalsForWeek } from './weekLookup';
+import type { ReviewAction } from '../utils/weeklyReview';
+import { isDayMet } from '../utils/progress';
+
+export interface GoalDraft {
+  title: string;
+  description: string | null;
+  target_days: number;
+  unit?: string | null;
+  target_amount?: number | null;
+  target_period?: 'daily' | 'weekly' | null;
+  series_id?: string | null;
+}
+
+// Creates a goal for the given week along with one completion row per day
+export async function createGoalForWeek(
+  repositories: Repositories,
+  userId: string,
+  weekStart: Date,
+  draft: GoalDraft
+): Promise<Goal> {
+  const goal = await repositories.goals.create({
+    user_id: userId,
+    title: draft.title,
+    description: draft.description,
+    target_days: draft.target_days,
+    unit: draft.unit ?? null,
+    target_amount: draft.target_amount ?? null,
+    target_period: draft.target_period ?? null,
+    week_start: formatDate(weekStart),
+    series_id: draft.series_id ?? null,
+  });
+
+  await repositories.completions.createMany(getWeekDays(weekStart).map(day => ({
+    goal_id: goal.id,
+    user_id: userId,
+    date: formatDate(day),
+    completed: false,
+  })));
+
+  return goal;
+}
+
+// Weeks the series was given under another start day count for the week
+// they fall in
+export function isSeriesScheduledFor(series: GoalSeries, weekStart: Date): boolean {
+  const { from, to } = getStoredWeekRange(weekStart);
+  return (
+    series.status === 'active' &&
+    series.start_week <= to &&
+    (!series.end_week || series.end_week >= from) &&
+    !series.skipped_weeks.some(week => week >= from && week <= to)
+  );
+}
+
+const inFlightSpawns = new Map<string, Promise<void>>();
+
+// Creates the missing instances of active series for a week. Past weeks are
+// left alone so pausing a habit does not backfill the weeks it was paused.
+export function spawnSeriesInstances(
+  repositories: Repositories,
+  userId: string,
+  weekStart: Date,
+  settings: DateSettings
+): Promise<void> {
+  const week = formatDate(weekStart);
+  if (week < formatDate(getCurrentWeekStart(settings))) return Promise.resolve();
+
+  // Dashboard and GoalsManager may ask for the same week at once
+  const key = `${userId}:${week}`;
+  const existing = inFlightSpawns.get(key);
+  if (existing) return existing;
+
+  const spawn = (async () => {
+    const [allSeries, goals] = await Promise.all([
+      repositories.goalSeries.list(userId),
+      listGoalsForWeek(repositories, userId, weekStart),
+    ]);
+    const spawnedSeriesIds = new Set(goals.map(goal => goal.series_id));
+
+    for (const series of allSeries) {
+      if (!isSeriesScheduledFor(series, weekStart) || spawnedSeriesIds.has(series.id)) continue;
+      await createGoalForWeek(repositories, userId, weekStart, {
+        title: series.title,
+        description: series.description,
+        target_days: series.target_days,
+        unit: series.unit,
+        target_amount: series.target_amount,
+        target_period: series.target_period,
+        series_id: series.id,
+      });
+    }
+  })().finally(() => {
+    inFlightSpawns.delete(key);
+  });
+
+  inFlightSpawns.set(key, spawn);
+  return spawn;
+}
+
+// Stops a series after the given week and removes instances planned beyond it
+export async function endSeries(
+  repositories: Repositories,
+  userId: string,
+  series: GoalSeries,
+  lastWeek: Date
+): Promise<void> {
+  await repositories.goalSeries.update(userId, series.id, { status: 'ended', end_week: formatDate(lastWeek) });
+
+  const { to } = getStoredWeekRange(lastWeek);
+  const instances = await repositories.goals.listBySeries(userId, series.id);
+  for (const goal of instances.filter(goal => goal.week_start > to)) {
+    await repositories.goals.remove(userId, goal.id);
+  }
+}
+
+export type EditScope = 'week' | 'future';
+
+// Applies an edit to one instance, or to its series and every instance from
+// that week on. Earlier weeks keep the title and target they were tracked with.
+export async function updateGoal(
+  repositories: Repositories,
+  userId: string,
+  goal: Pick<Goal, 'id' | 'series_id' | 'week_start'>,
+  patch: GoalUpdate,
+  scope: EditScope
+): Promise<void> {
+  const targetChanged = 'target_amount' in patch || 'target_period' in patch;
+  const updateInstance = async (id: string) => {
+    const updated = await repositories.goals.update(userId, id, patch);
+    if (targetChanged) await refreshCompletedDays(repositories, userId, updated);
+  };
+
+  if (scope === 'week' || !goal.series_id) {
+    await updateInstance(goal.id);
+    return;
+  }
+
+  await repositories.goalSeries.update(userId, goal.series_id, patch);
+
+  const instances = await repositories.goals.listBySeries(userId, goal.series_id);
+  for (const instance of instances.filter(instance => instance.week_start >= goal.week_start)) {
+    await updateInstance(instance.id);
+  }
+}
+
+// A quantitative day's completed flag records whether its value met the
+// target, so it is worked out again when the target changes
+async function refreshCompletedDays(repositories: Repositories, userId: string, goal: Goal): Promise<void> {
+  const days = getWeekDays(parseDate(goal.week_start));
+  const completions = await repositories.completions.listByDateRange(
+    userId,
+    goal.week_start,
+    formatDate(days[days.length - 1])
+  );
+
+  for (const completion of completions.filter(completion => completion.goal_id === goal.id)) {
+    const completed = isDayMet(goal, completion);
+    if (completed !== completion.completed) {
+      await repositories.completions.setCompleted(userId, goal.id, completion.date, completed);
+    }
+  }
+}
+
+export interface GoalPlanForNextWeek {
+  goal: Goal;
+  action: ReviewAction;
+  targetDays: number;
+}
+
+// Carries the outcome of a weekly review into the following week. Recurring
+// goals keep spawning unless dropped, which ends the series after the
+// reviewed week; adjusting one changes the series from next week on. One-off
+// goals are copied forward when kept or adjusted.
+export async function planNextWeek(
+  repositories: Repositories,
+  userId: string,
+  reviewedWeek: Date,
+  plans: GoalPlanForNextWeek[],
+  settings: DateSettings
+): Promise<void> {
+  const nextWeek = shiftWeek(reviewedWeek, 1);
+  const allSeries = await repositories.goalSeries.list(userId);
+
+  for (const plan of plans.filter(plan => plan.action === 'drop' && plan.goal.series_id)) {
+    const series = allSeries.find(candidate => candidate.id === plan.goal.series_id);
+    if (series && series.status !== 'ended') {
+      await endSeries(repositories, userId, series, reviewedWeek);
+    }
+  }
+
+  await spawnSeriesInstances(repositories, userId, nextWeek, settings);
+  const nextGoals = await listGoalsForWeek(repositories, userId, nextWeek);
+
+  for (const plan of plans.filter(plan => plan.action !== 'drop')) {
+    const { goal, targetDays } = plan;
+
+    if (goal.series_id) {
+      const nextInstance = nextGoals.find(candidate => candidate.series_id === goal.series_id);
+      if (nextInstance) {
+        if (targetDays !== nextInstance.target_days) {
+          await updateGoal(repositories, userId, nextInstance, { target_days: targetDays }, 'future');
+        }
+      } else if (targetDays !== goal.target_days) {
+        // Paused series have no instance next week but keep the new target for later
+        await repositories.goalSeries.update(userId, goal.series_id, { target_days: targetDays });
+      }
+      continue;
+    }
+
+    // Already planned for next week, for example by copying the week
+    if (nextGoals.some(candidate => !candidate.series_id && candidate.title === goal.title)) continue;
+
+    await createGoalForWeek(repositories, userId, nextWeek, {
+      title: goal.title,
+      description: goal.description,
+      target_days: targetDays,
+      unit: goal.unit,
+      target_amount: goal.target_amount,
+      target_period: goal.target_period,
+    });
+  }
+}
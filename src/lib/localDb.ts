@@ -0,0 +1,203 @@
+import type { Database } from './supabase';
+
+type Tables = Database['public']['Tables'];
+
+export type SyncedTable =
+  | 'goal_series'
+  | 'goals'
+  | 'goal_adjustments'
+  | 'daily_completions'
+  | 'burnout_scoring_models'
+  | 'burnout_checkins'
+  | 'weekly_reviews'
+  | 'user_preferences';
+export type TableRow<T extends SyncedTable> = Tables[T]['Row'];
+export type TableInsert<T extends SyncedTable> = Tables[T]['Insert'];
+export type TableUpdate<T extends SyncedTable> = Tables[T]['Update'];
+
+// Tables mirrored into IndexedDB, in dependency order (parents first)
+export const SYNCED_TABLES: SyncedTable[] = [
+  'goal_series',
+  'goals',
+  'goal_adjustments',
+  'daily_completions',
+  'burnout_scoring_models',
+  'burnout_checkins',
+  'weekly_reviews',
+  'user_preferences',
+];
+
+export interface PendingChange {
+  id?: number;
+  table: SyncedTable;
+  op: 'upsert' | 'delete';
+  rowId: string;
+  row: TableRow<SyncedTable> | null;
+  queuedAt: string;
+  // Set when the server rejected the change; it stays queued until retried or discarded
+  failedAt?: string;
+  error?: string;
+}
+
+const DB_NAME = 'goalsync';
+const DB_VERSION = 6;
+const OUTBOX_STORE = 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        SYNCED_TABLES.forEach(table => {
+          if (!db.objectStoreNames.contains(table)) {
+            const store = db.createObjectStore(table, { keyPath: 'id' });
+            store.createIndex('user_id', 'user_id');
+          }
+        });
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getAllRows<T extends SyncedTable>(table: T, userId?: string): Promise<TableRow<T>[]> {
+  const db = await openDb();
+  const store = db.transaction(table, 'readonly').objectStore(table);
+  const rows = userId
+    ? await promisify(store.index('user_id').getAll(userId))
+    : await promisify(store.getAll());
+  return rows as TableRow<T>[];
+}
+
+export async function getRowById<T extends SyncedTable>(table: T, id: string): Promise<TableRow<T> | undefined> {
+  const db = await openDb();
+  const store = db.transaction(table, 'readonly').objectStore(table);
+  return promisify(store.get(id)) as Promise<TableRow<T> | undefined>;
+}
+
+export async function putRows<T extends SyncedTable>(table: T, rows: TableRow<T>[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(table, 'readwrite');
+  const store = tx.objectStore(table);
+  rows.forEach(row => store.put(row));
+  await transactionDone(tx);
+}
+
+export async function deleteRowsById(table: SyncedTable, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(table, 'readwrite');
+  const store = tx.objectStore(table);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+}
+
+// Writes rows and queues the matching outbox entries in a single transaction,
+// so a change is never stored locally without also being scheduled for sync.
+export async function applyLocalChanges<T extends SyncedTable>(
+  table: T,
+  changes: { upserts?: TableRow<T>[]; deletes?: string[] }
+): Promise<void> {
+  const upserts = changes.upserts || [];
+  const deletes = changes.deletes || [];
+  if (upserts.length === 0 && deletes.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction([table, OUTBOX_STORE], 'readwrite');
+  const store = tx.objectStore(table);
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  const queuedAt = new Date().toISOString();
+
+  upserts.forEach(row => {
+    store.put(row);
+    outbox.add({ table, op: 'upsert', rowId: row.id, row, queuedAt });
+  });
+  deletes.forEach(id => {
+    store.delete(id);
+    outbox.add({ table, op: 'delete', rowId: id, row: null, queuedAt });
+  });
+
+  await transactionDone(tx);
+}
+
+// Replaces a user's rows with the server's copy, except rows with a queued
+// change. The outbox is read in the same transaction as the writes, so a row
+// written locally while the pull was in flight keeps its local version.
+export async function applyRemoteRows<T extends SyncedTable>(
+  table: T,
+  userId: string,
+  remoteRows: TableRow<T>[]
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([table, OUTBOX_STORE], 'readwrite');
+  const store = tx.objectStore(table);
+  const pendingRequest = tx.objectStore(OUTBOX_STORE).getAll();
+  const localRequest = store.index('user_id').getAllKeys(userId);
+
+  // Requests in a transaction complete in order, so the outbox is read by now
+  localRequest.onsuccess = () => {
+    const pendingIds = new Set((pendingRequest.result as PendingChange[]).map(change => change.rowId));
+    const remoteIds = new Set(remoteRows.map(row => row.id));
+
+    remoteRows
+      .filter(row => !pendingIds.has(row.id))
+      .forEach(row => store.put(row));
+    // Rows that vanished remotely were deleted on another device
+    (localRequest.result as string[])
+      .filter(id => !remoteIds.has(id) && !pendingIds.has(id))
+      .forEach(id => store.delete(id));
+  };
+
+  await transactionDone(tx);
+}
+
+export async function getPendingChanges(): Promise<PendingChange[]> {
+  const db = await openDb();
+  const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+  return promisify(store.getAll()) as Promise<PendingChange[]>;
+}
+
+export async function putPendingChanges(changes: PendingChange[]): Promise<void> {
+  if (changes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  const store = tx.objectStore(OUTBOX_STORE);
+  changes.forEach(change => store.put(change));
+  await transactionDone(tx);
+}
+
+export async function removePendingChange(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+  tx.objectStore(OUTBOX_STORE).delete(id);
+  await transactionDone(tx);
+}
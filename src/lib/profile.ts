@@ -0,0 +1,38 @@
+import type { User } from '@supabase/supabase-js';
+import { supabase, Database } from './supabase';
+
+export type Profile = Database['public']['Tables']['profiles']['Row'];
+export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+
+export async function loadProfile(user: User): Promise<Profile> {
+  if (supabase) {
+    const { data, error } = await supabase.from('profiles').select('*').eq('id', user.id).maybeSingle();
+    if (error) throw error;
+    if (data) return data;
+  }
+
+  return accountProfile(user);
+}
+
+// Offline there is no profiles table, so the account stands in for it
+export function accountProfile(user: User): Profile {
+  return {
+    id: user.id,
+    email: user.email || '',
+    full_name: user.user_metadata?.full_name ?? null,
+    created_at: user.created_at,
+  };
+}
+
+// The name is kept on the account as well, which is where the header reads it from
+export async function updateProfile(user: User, update: ProfileUpdate): Promise<void> {
+  if (!supabase) throw new Error('Profiles can only be edited while signed in online');
+
+  const { error } = await supabase.from('profiles').update(update).eq('id', user.id);
+  if (error) throw error;
+
+  if (update.full_name !== undefined) {
+    const { error: userError } = await supabase.auth.updateUser({ data: { full_name: update.full_name } });
+    if (userError) throw userError;
+  }
+}
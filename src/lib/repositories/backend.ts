@@ -0,0 +1,67 @@
+import type { SyncedTable, TableRow, TableInsert, TableUpdate } from '../localDb';
+
+export interface RowQuery<R> {
+  match?: Partial<R>;
+  gte?: Partial<R>;
+  lte?: Partial<R>;
+}
+
+// Storage a repository reads from and writes to. Every call is scoped to a
+// single user, mirroring the row level security policies on the server.
+export interface TableBackend {
+  select<T extends SyncedTable>(table: T, userId: string, query?: RowQuery<TableRow<T>>): Promise<TableRow<T>[]>;
+  insert<T extends SyncedTable>(table: T, rows: TableInsert<T>[]): Promise<TableRow<T>[]>;
+  update<T extends SyncedTable>(
+    table: T,
+    userId: string,
+    query: RowQuery<TableRow<T>>,
+    patch: TableUpdate<T>
+  ): Promise<TableRow<T>[]>;
+  remove<T extends SyncedTable>(table: T, userId: string, query: RowQuery<TableRow<T>>): Promise<void>;
+}
+
+// Columns the database fills in when an insert leaves them out
+const ROW_DEFAULTS: { [T in SyncedTable]: Partial<TableRow<T>> } = {
+  goal_series: {
+    description: null,
+    unit: null,
+    target_amount: null,
+    target_period: null,
+    end_week: null,
+    status: 'active',
+    skipped_weeks: [],
+  },
+  goals: { description: null, unit: null, target_amount: null, target_period: null, series_id: null },
+  goal_adjustments: { burnout_score: null },
+  daily_completions: { completed: false, value: null },
+  burnout_scoring_models: {},
+  burnout_checkins: { model_version: null, extras: {} },
+  weekly_reviews: { went_well: '', didnt_work: '', completion_rate: null, avg_burnout_score: null, decisions: [] },
+  user_preferences: {
+    week_starts_on: 1,
+    timezone: null,
+    default_target_days: 5,
+    units: 'metric',
+    reminder_time: '20:00',
+    streak_rest_days: null,
+  },
+};
+
+export function buildRow<T extends SyncedTable>(table: T, insert: TableInsert<T>, now: string): TableRow<T> {
+  return {
+    ...ROW_DEFAULTS[table],
+    id: crypto.randomUUID(),
+    created_at: now,
+    ...insert,
+    updated_at: now,
+  } as TableRow<T>;
+}
+
+export function matchesQuery<R>(row: R, query: RowQuery<R>): boolean {
+  const { match = {} as Partial<R>, gte = {} as Partial<R>, lte = {} as Partial<R> } = query;
+  return (
+    (Object.keys(match) as (keyof R)[]).every(key => row[key] === match[key]) &&
+    (Object.keys(gte) as (keyof R)[]).every(key => row[key] >= gte[key]!) &&
+    (Object.keys(lte) as (keyof R)[]).every(key => row[key] <= lte[key]!)
+  );
+}
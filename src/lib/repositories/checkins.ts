@@ -0,0 +1,40 @@
+import type { TableRow, TableInsert, TableUpdate } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type Checkin = TableRow<'burnout_checkins'>;
+export type CheckinInsert = TableInsert<'burnout_checkins'>;
+export type CheckinUpdate = TableUpdate<'burnout_checkins'>;
+
+export interface CheckinsRepository {
+  getByDate(userId: string, date: string): Promise<Checkin | null>;
+  listByDateRange(userId: string, from: string, to?: string): Promise<Checkin[]>;
+  create(checkin: CheckinInsert): Promise<Checkin>;
+  update(userId: string, id: string, patch: CheckinUpdate): Promise<Checkin>;
+}
+
+export function createCheckinsRepository(backend: TableBackend): CheckinsRepository {
+  return {
+    async getByDate(userId, date) {
+      const [checkin = null] = await backend.select('burnout_checkins', userId, { match: { date } });
+      return checkin;
+    },
+
+    async listByDateRange(userId, from, to) {
+      const checkins = await backend.select('burnout_checkins', userId, {
+        gte: { date: from },
+        lte: to ? { date: to } : {},
+      });
+      return checkins.sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async create(checkin) {
+      const [created] = await backend.insert('burnout_checkins', [checkin]);
+      return created;
+    },
+
+    async update(userId, id, patch) {
+      const [updated] = await backend.update('burnout_checkins', userId, { match: { id } }, patch);
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { TableRow, TableInsert } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type Completion = TableRow<'daily_completions'>;
+export type CompletionInsert = TableInsert<'daily_completions'>;
+
+export interface CompletionsRepository {
+  listByDateRange(userId: string, from: string, to: string): Promise<Completion[]>;
+  createMany(completions: CompletionInsert[]): Promise<Completion[]>;
+  setCompleted(userId: string, goalId: string, date: string, completed: boolean): Promise<void>;
+  setValue(userId: string, goalId: string, date: string, value: number | null, completed: boolean): Promise<void>;
+}
+
+export function createCompletionsRepository(backend: TableBackend): CompletionsRepository {
+  return {
+    listByDateRange(userId, from, to) {
+      return backend.select('daily_completions', userId, {
+        gte: { date: from },
+        lte: { date: to },
+      });
+    },
+
+    createMany(completions) {
+      return backend.insert('daily_completions', completions);
+    },
+
+    async setCompleted(userId, goalId, date, completed) {
+      await backend.update('daily_completions', userId, {
+        match: { goal_id: goalId, date },
+      }, { completed });
+    },
+
+    async setValue(userId, goalId, date, value, completed) {
+      await backend.update('daily_completions', userId, {
+        match: { goal_id: goalId, date },
+      }, { value, completed });
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { TableRow, TableInsert } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type GoalAdjustment = TableRow<'goal_adjustments'>;
+export type GoalAdjustmentInsert = TableInsert<'goal_adjustments'>;
+
+// Log of accepted and rejected target changes proposed by the adaptive engine
+export interface GoalAdjustmentsRepository {
+  listByGoals(userId: string, goalIds: string[]): Promise<GoalAdjustment[]>;
+  create(adjustment: GoalAdjustmentInsert): Promise<GoalAdjustment>;
+}
+
+export function createGoalAdjustmentsRepository(backend: TableBackend): GoalAdjustmentsRepository {
+  return {
+    async listByGoals(userId, goalIds) {
+      const ids = new Set(goalIds);
+      const adjustments = await backend.select('goal_adjustments', userId);
+      return adjustments
+        .filter(adjustment => adjustment.goal_id !== null && ids.has(adjustment.goal_id))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    async create(adjustment) {
+      const [created] = await backend.insert('goal_adjustments', [adjustment]);
+      return created;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import type { TableRow, TableInsert, TableUpdate } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type GoalSeries = TableRow<'goal_series'>;
+export type GoalSeriesInsert = TableInsert<'goal_series'>;
+export type GoalSeriesUpdate = TableUpdate<'goal_series'>;
+
+export interface GoalSeriesRepository {
+  list(userId: string): Promise<GoalSeries[]>;
+  create(series: GoalSeriesInsert): Promise<GoalSeries>;
+  update(userId: string, id: string, patch: GoalSeriesUpdate): Promise<GoalSeries>;
+}
+
+export function createGoalSeriesRepository(backend: TableBackend): GoalSeriesRepository {
+  return {
+    async list(userId) {
+      const series = await backend.select('goal_series', userId);
+      return series.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(series) {
+      const [created] = await backend.insert('goal_series', [series]);
+      return created;
+    },
+
+    async update(userId, id, patch) {
+      const [updated] = await backend.update('goal_series', userId, { match: { id } }, patch);
+      return updated;
+    },
+  };
+}
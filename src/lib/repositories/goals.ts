@@ -0,0 +1,56 @@
+import type { TableRow, TableInsert, TableUpdate } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type Goal = TableRow<'goals'>;
+export type GoalInsert = TableInsert<'goals'>;
+export type GoalUpdate = TableUpdate<'goals'>;
+
+export interface GoalsRepository {
+  get(userId: string, id: string): Promise<Goal | null>;
+  listBySeries(userId: string, seriesId: string): Promise<Goal[]>;
+  listByWeekRange(userId: string, fromWeek: string, toWeek: string): Promise<Goal[]>;
+  create(goal: GoalInsert): Promise<Goal>;
+  createMany(goals: GoalInsert[]): Promise<Goal[]>;
+  update(userId: string, id: string, patch: GoalUpdate): Promise<Goal>;
+  remove(userId: string, id: string): Promise<void>;
+}
+
+export function createGoalsRepository(backend: TableBackend): GoalsRepository {
+  return {
+    async get(userId, id) {
+      const [goal = null] = await backend.select('goals', userId, { match: { id } });
+      return goal;
+    },
+
+    async listBySeries(userId, seriesId) {
+      const goals = await backend.select('goals', userId, { match: { series_id: seriesId } });
+      return goals.sort((a, b) => a.week_start.localeCompare(b.week_start));
+    },
+
+    async listByWeekRange(userId, fromWeek, toWeek) {
+      const goals = await backend.select('goals', userId, {
+        gte: { week_start: fromWeek },
+        lte: { week_start: toWeek },
+      });
+      return goals.sort((a, b) => a.week_start.localeCompare(b.week_start) || a.created_at.localeCompare(b.created_at));
+    },
+
+    async create(goal) {
+      const [created] = await backend.insert('goals', [goal]);
+      return created;
+    },
+
+    createMany(goals) {
+      return backend.insert('goals', goals);
+    },
+
+    async update(userId, id, patch) {
+      const [updated] = await backend.update('goals', userId, { match: { id } }, patch);
+      return updated;
+    },
+
+    async remove(userId, id) {
+      await backend.remove('goals', userId, { match: { id } });
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { supabase } from '../supabase';
+import type { TableBackend } from './backend';
+import { localBackend } from './localBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { GoalsRepository, createGoalsRepository } from './goals';
+import { GoalSeriesRepository, createGoalSeriesRepository } from './goalSeries';
+import { GoalAdjustmentsRepository, createGoalAdjustmentsRepository } from './goalAdjustments';
+import { CompletionsRepository, createCompletionsRepository } from './completions';
+import { CheckinsRepository, createCheckinsRepository } from './checkins';
+import { ScoringModelsRepository, createScoringModelsRepository } from './scoringModels';
+import { WeeklyReviewsRepository, createWeeklyReviewsRepository } from './weeklyReviews';
+import { PreferencesRepository, createPreferencesRepository } from './preferences';
+
+export type { Goal, GoalInsert, GoalUpdate, GoalsRepository } from './goals';
+export type { GoalSeries, GoalSeriesInsert, GoalSeriesUpdate, GoalSeriesRepository } from './goalSeries';
+export type { GoalAdjustment, GoalAdjustmentInsert, GoalAdjustmentsRepository } from './goalAdjustments';
+export type { Completion, CompletionInsert, CompletionsRepository } from './completions';
+export type { Checkin, CheckinInsert, CheckinUpdate, CheckinsRepository } from './checkins';
+export type { ScoringModelRow, ScoringModelInsert, ScoringModelsRepository } from './scoringModels';
+export type { WeeklyReview, WeeklyReviewInsert, WeeklyReviewUpdate, WeeklyReviewsRepository } from './weeklyReviews';
+export type { UserPreferences, UserPreferencesUpdate, PreferencesRepository } from './preferences';
+export type { TableBackend, RowQuery } from './backend';
+export { createMemoryBackend } from './memoryBackend';
+export type { MemorySeed } from './memoryBackend';
+
+export type DataBackendName = 'local' | 'supabase' | 'memory';
+
+export interface Repositories {
+  goals: GoalsRepository;
+  goalSeries: GoalSeriesRepository;
+  goalAdjustments: GoalAdjustmentsRepository;
+  completions: CompletionsRepository;
+  checkins: CheckinsRepository;
+  scoringModels: ScoringModelsRepository;
+  weeklyReviews: WeeklyReviewsRepository;
+  preferences: PreferencesRepository;
+}
+
+export function createRepositories(backend: TableBackend): Repositories {
+  return {
+    goals: createGoalsRepository(backend),
+    goalSeries: createGoalSeriesRepository(backend),
+    goalAdjustments: createGoalAdjustmentsRepository(backend),
+    completions: createCompletionsRepository(backend),
+    checkins: createCheckinsRepository(backend),
+    scoringModels: createScoringModelsRepository(backend),
+    weeklyReviews: createWeeklyReviewsRepository(backend),
+    preferences: createPreferencesRepository(backend),
+  };
+}
+
+// VITE_DATA_BACKEND picks the storage at startup: 'local' (IndexedDB, synced
+// to Supabase when configured), 'supabase' (direct, online only) or 'memory'.
+function resolveBackendName(): DataBackendName {
+  const requested = import.meta.env.VITE_DATA_BACKEND;
+  if (requested === 'memory') return 'memory';
+  if (requested === 'supabase') {
+    if (supabase) return 'supabase';
+    console.warn('VITE_DATA_BACKEND is "supabase" but Supabase is not configured. Falling back to local storage.');
+  }
+  return 'local';
+}
+
+export const dataBackendName = resolveBackendName();
+
+export function createDefaultRepositories(): Repositories {
+  switch (dataBackendName) {
+    case 'memory':
+      return createRepositories(createMemoryBackend());
+    case 'supabase':
+      return createRepositories(createSupabaseBackend(supabase!));
+    default:
+      return createRepositories(localBackend);
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  TableRow,
+  getAllRows,
+  deleteRowsById,
+  applyLocalChanges,
+} from '../localDb';
+import { requestSync } from '../sync';
+import { TableBackend, buildRow, matchesQuery } from './backend';
+
+// Local-first backend. Reads always come from IndexedDB; writes land there
+// immediately and are queued for the next sync run.
+export const localBackend: TableBackend = {
+  async select(table, userId, query = {}) {
+    const rows = await getAllRows(table, userId);
+    return rows.filter(row => matchesQuery(row, query));
+  },
+
+  async insert(table, inserts) {
+    const now = new Date().toISOString();
+    const rows = inserts.map(insert => buildRow(table, insert, now));
+
+    await applyLocalChanges(table, { upserts: rows });
+    requestSync();
+    return rows;
+  },
+
+  async update(table, userId, query, patch) {
+    const now = new Date().toISOString();
+    const rows = (await this.select(table, userId, query)).map(row => ({
+      ...row,
+      ...patch,
+      updated_at: now,
+    })) as TableRow<typeof table>[];
+
+    await applyLocalChanges(table, { upserts: rows });
+    requestSync();
+    return rows;
+  },
+
+  async remove(table, userId, query) {
+    const ids = (await this.select(table, userId, query)).map(row => row.id);
+    await applyLocalChanges(table, { deletes: ids });
+
+    // Mirror ON DELETE CASCADE locally; the server removes its own copies
+    if (table === 'goals' && ids.length > 0) {
+      const completions = await getAllRows('daily_completions', userId);
+      const orphanIds = completions.filter(c => ids.includes(c.goal_id)).map(c => c.id);
+      await deleteRowsById('daily_completions', orphanIds);
+    }
+
+    requestSync();
+  },
+};
@@ -0,0 +1,62 @@
+import type { SyncedTable, TableRow } from '../localDb';
+import { TableBackend, buildRow, matchesQuery } from './backend';
+
+export type MemorySeed = { [T in SyncedTable]?: TableRow<T>[] };
+
+// Keeps every table in plain arrays. Used to run the UI without a backend
+// and to give component tests a fresh, isolated store.
+export function createMemoryBackend(seed: MemorySeed = {}): TableBackend {
+  const tables: { [T in SyncedTable]: TableRow<T>[] } = {
+    goal_series: [...(seed.goal_series || [])],
+    goals: [...(seed.goals || [])],
+    goal_adjustments: [...(seed.goal_adjustments || [])],
+    daily_completions: [...(seed.daily_completions || [])],
+    burnout_scoring_models: [...(seed.burnout_scoring_models || [])],
+    burnout_checkins: [...(seed.burnout_checkins || [])],
+    weekly_reviews: [...(seed.weekly_reviews || [])],
+    user_preferences: [...(seed.user_preferences || [])],
+  };
+
+  function rowsOf<T extends SyncedTable>(table: T): TableRow<T>[] {
+    return tables[table] as TableRow<T>[];
+  }
+
+  function setRows<T extends SyncedTable>(table: T, rows: TableRow<T>[]) {
+    (tables as { [K in SyncedTable]: TableRow<SyncedTable>[] })[table] = rows;
+  }
+
+  return {
+    async select(table, userId, query = {}) {
+      return rowsOf(table).filter(row => row.user_id === userId && matchesQuery(row, query));
+    },
+
+    async insert(table, inserts) {
+      const now = new Date().toISOString();
+      const rows = inserts.map(insert => buildRow(table, insert, now));
+      setRows(table, [...rowsOf(table), ...rows]);
+      return rows;
+    },
+
+    async update(table, userId, query, patch) {
+      const now = new Date().toISOString();
+      const updated: TableRow<typeof table>[] = [];
+      setRows(table, rowsOf(table).map(row => {
+        if (row.user_id !== userId || !matchesQuery(row, query)) return row;
+        const next = { ...row, ...patch, updated_at: now };
+        updated.push(next);
+        return next;
+      }));
+      return updated;
+    },
+
+    async remove(table, userId, query) {
+      const removed = rowsOf(table).filter(row => row.user_id === userId && matchesQuery(row, query));
+      const ids = removed.map(row => row.id);
+      setRows(table, rowsOf(table).filter(row => !ids.includes(row.id)));
+
+      if (table === 'goals') {
+        tables.daily_completions = tables.daily_completions.filter(c => !ids.includes(c.goal_id));
+      }
+    },
+  };
+}
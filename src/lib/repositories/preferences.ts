@@ -0,0 +1,32 @@
+import type { TableRow, TableUpdate } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type UserPreferences = TableRow<'user_preferences'>;
+export type UserPreferencesUpdate = TableUpdate<'user_preferences'>;
+
+// One row per user, created the first time a preference is saved
+export interface PreferencesRepository {
+  get(userId: string): Promise<UserPreferences | null>;
+  save(userId: string, patch: UserPreferencesUpdate): Promise<UserPreferences>;
+}
+
+export function createPreferencesRepository(backend: TableBackend): PreferencesRepository {
+  const get = async (userId: string) => {
+    const [preferences = null] = await backend.select('user_preferences', userId);
+    return preferences;
+  };
+
+  return {
+    get,
+
+    async save(userId, patch) {
+      const existing = await get(userId);
+      if (existing) {
+        const [updated] = await backend.update('user_preferences', userId, { match: { id: existing.id } }, patch);
+        return updated;
+      }
+      const [created] = await backend.insert('user_preferences', [{ user_id: userId, ...patch }]);
+      return created;
+    },
+  };
+}
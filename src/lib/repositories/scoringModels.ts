@@ -0,0 +1,26 @@
+import type { TableRow, TableInsert } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type ScoringModelRow = TableRow<'burnout_scoring_models'>;
+export type ScoringModelInsert = TableInsert<'burnout_scoring_models'>;
+
+// Models are never edited in place: every change is saved as a new version so
+// scores recorded under earlier versions keep their meaning.
+export interface ScoringModelsRepository {
+  list(userId: string): Promise<ScoringModelRow[]>;
+  create(model: ScoringModelInsert): Promise<ScoringModelRow>;
+}
+
+export function createScoringModelsRepository(backend: TableBackend): ScoringModelsRepository {
+  return {
+    async list(userId) {
+      const models = await backend.select('burnout_scoring_models', userId);
+      return models.sort((a, b) => a.version - b.version);
+    },
+
+    async create(model) {
+      const [created] = await backend.insert('burnout_scoring_models', [model]);
+      return created;
+    },
+  };
+}
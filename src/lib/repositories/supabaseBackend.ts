@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../supabase';
+import type { SyncedTable, TableInsert, TableRow, TableUpdate } from '../localDb';
+import { TableBackend, RowQuery } from './backend';
+
+interface FilterBuilder<B> {
+  match(query: Record<string, unknown>): B;
+  gte(column: string, value: unknown): B;
+  lte(column: string, value: unknown): B;
+}
+
+function applyQuery<B extends FilterBuilder<B>, R>(builder: B, query: RowQuery<R>): B {
+  let result = builder.match((query.match || {}) as Record<string, unknown>);
+  Object.entries(query.gte || {}).forEach(([column, value]) => {
+    result = result.gte(column, value);
+  });
+  Object.entries(query.lte || {}).forEach(([column, value]) => {
+    result = result.lte(column, value);
+  });
+  return result;
+}
+
+// Talks to Supabase directly, with no local cache or offline queue
+export function createSupabaseBackend(client: SupabaseClient<Database>): TableBackend {
+  // The query builder cannot narrow a generic table name, so queries are built
+  // over the union of synced tables and their rows typed again on the way out
+  const from = (table: SyncedTable) => client.from(table);
+
+  return {
+    async select(table, userId, query = {}) {
+      const { data, error } = await applyQuery(
+        from(table).select('*').eq('user_id', userId),
+        query
+      );
+      if (error) throw error;
+      return (data || []) as TableRow<typeof table>[];
+    },
+
+    async insert(table, rows) {
+      const { data, error } = await from(table).insert(rows as TableInsert<SyncedTable>[]).select();
+      if (error) throw error;
+      return (data || []) as TableRow<typeof table>[];
+    },
+
+    async update(table, userId, query, patch) {
+      const { data, error } = await applyQuery(
+        from(table).update(patch as TableUpdate<SyncedTable>).eq('user_id', userId),
+        query
+      ).select();
+      if (error) throw error;
+      return (data || []) as TableRow<typeof table>[];
+    },
+
+    async remove(table, userId, query) {
+      const { error } = await applyQuery(
+        from(table).delete().eq('user_id', userId),
+        query
+      );
+      if (error) throw error;
+    },
+  };
+}
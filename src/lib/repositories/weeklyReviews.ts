@@ -0,0 +1,35 @@
+import type { TableRow, TableInsert, TableUpdate } from '../localDb';
+import type { TableBackend } from './backend';
+
+export type WeeklyReview = TableRow<'weekly_reviews'>;
+export type WeeklyReviewInsert = TableInsert<'weekly_reviews'>;
+export type WeeklyReviewUpdate = TableUpdate<'weekly_reviews'>;
+
+// End-of-week reflections and the decisions made for the following week
+export interface WeeklyReviewsRepository {
+  listByWeekRange(userId: string, fromWeek: string, toWeek: string): Promise<WeeklyReview[]>;
+  create(review: WeeklyReviewInsert): Promise<WeeklyReview>;
+  update(userId: string, id: string, patch: WeeklyReviewUpdate): Promise<WeeklyReview>;
+}
+
+export function createWeeklyReviewsRepository(backend: TableBackend): WeeklyReviewsRepository {
+  return {
+    async listByWeekRange(userId, fromWeek, toWeek) {
+      const reviews = await backend.select('weekly_reviews', userId, {
+        gte: { week_start: fromWeek },
+        lte: { week_start: toWeek },
+      });
+      return reviews.sort((a, b) => a.week_start.localeCompare(b.week_start));
+    },
+
+    async create(review) {
+      const [created] = await backend.insert('weekly_reviews', [review]);
+      return created;
+    },
+
+    async update(userId, id, patch) {
+      const [updated] = await backend.update('weekly_reviews', userId, { match: { id } }, patch);
+      return updated;
+    },
+  };
+}
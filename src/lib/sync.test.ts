@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { TableRow, applyLocalChanges, getAllRows, getPendingChanges, putRows } from './localDb';
+import { discardFailedChanges, getSyncState, startSync, syncNow } from './sync';
+
+type RemoteRow = { id: string; user_id: string };
+
+// Server rows per table, ids whose upserts it refuses, and a hook run while a table is being pulled
+const remote = vi.hoisted(() => ({
+  rows: {} as Record<string, RemoteRow[]>,
+  rejectedIds: new Set<string>(),
+  onPull: null as ((table: string) => Promise<void>) | null,
+}));
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const rows = () => remote.rows[table] || [];
+      return {
+        select: () => ({
+          eq: (column: 'id' | 'user_id', value: string) => ({
+            maybeSingle: async () => ({ data: rows().find(row => row[column] === value) || null, error: null }),
+            then: (resolve: (result: { data: RemoteRow[]; error: null }) => void) => {
+              (remote.onPull ? remote.onPull(table) : Promise.resolve())
+                .then(() => resolve({ data: rows().filter(row => row[column] === value), error: null }));
+            },
+          }),
+        }),
+        upsert: async (row: RemoteRow) => {
+          if (remote.rejectedIds.has(row.id)) {
+            return { error: { code: '23514', message: 'Rejected by a check constraint' } };
+          }
+          remote.rows[table] = [...rows().filter(existing => existing.id !== row.id), row];
+          return { error: null };
+        },
+      };
+    },
+  },
+}));
+
+const USER_ID = 'user-1';
+
+function goal(id: string, title: string, updatedAt: string): TableRow<'goals'> {
+  return {
+    id,
+    user_id: USER_ID,
+    title,
+    description: null,
+    target_days: 5,
+    unit: null,
+    target_amount: null,
+    target_period: null,
+    week_start: '2026-10-12',
+    series_id: null,
+    created_at: '2026-10-12T08:00:00.000Z',
+    updated_at: updatedAt,
+  };
+}
+
+describe('syncNow', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('window', new EventTarget());
+    startSync(USER_ID);
+    await vi.waitFor(() => expect(getSyncState().lastSyncedAt).not.toBeNull());
+  });
+
+  it('keeps rows written locally while the pull is in flight', async () => {
+    const synced = goal('goal-1', 'Read', '2026-10-12T08:00:00.000Z');
+    await putRows('goals', [synced]);
+    remote.rows = { goals: [synced] };
+
+    const edited = { ...synced, title: 'Read 20 pages', updated_at: '2026-10-13T08:00:00.000Z' };
+    const created = goal('goal-2', 'Walk', '2026-10-13T08:00:00.000Z');
+    remote.onPull = async table => {
+      if (table !== 'goals') return;
+      remote.onPull = null;
+      await applyLocalChanges('goals', { upserts: [edited, created] });
+    };
+
+    await syncNow();
+
+    const goals = await getAllRows('goals', USER_ID);
+    expect(goals.map(row => row.title).sort()).toEqual(['Read 20 pages', 'Walk']);
+    expect((await getPendingChanges()).map(change => change.rowId).sort()).toEqual(['goal-1', 'goal-2']);
+  });
+
+  it('pushes writes queued during a run in one more pass', async () => {
+    const created = goal('goal-3', 'Stretch', '2026-10-14T08:00:00.000Z');
+    remote.onPull = async table => {
+      if (table !== 'goals') return;
+      remote.onPull = null;
+      await applyLocalChanges('goals', { upserts: [created] });
+      syncNow();
+    };
+
+    await syncNow();
+
+    expect(await getPendingChanges()).toEqual([]);
+    expect(remote.rows.goals.map(row => (row as TableRow<'goals'>).title).sort()).toEqual(['Read 20 pages', 'Stretch', 'Walk']);
+  });
+
+  it('keeps changes the server rejects until they are discarded', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    remote.rejectedIds.add('goal-4');
+    await applyLocalChanges('goals', { upserts: [goal('goal-4', 'Swim', '2026-10-14T08:00:00.000Z')] });
+
+    await syncNow();
+
+    const [failed] = await getPendingChanges();
+    expect(failed).toMatchObject({ rowId: 'goal-4', error: 'Rejected by a check constraint' });
+    expect(getSyncState()).toMatchObject({ pending: 0, failed: 1 });
+    expect((await getAllRows('goals', USER_ID)).map(row => row.id)).toContain('goal-4');
+
+    await discardFailedChanges();
+
+    expect(getSyncState()).toMatchObject({ pending: 0, failed: 0 });
+    expect((await getAllRows('goals', USER_ID)).map(row => row.id)).not.toContain('goal-4');
+  });
+});
@@ -0,0 +1,339 @@
+import { supabase } from './supabase';
+import {
+  SYNCED_TABLES,
+  SyncedTable,
+  TableRow,
+  PendingChange,
+  getAllRows,
+  getRowById,
+  putRows,
+  deleteRowsById,
+  getPendingChanges,
+  putPendingChanges,
+  removePendingChange,
+  applyRemoteRows,
+} from './localDb';
+
+// Owner of rows created before any account is connected. They are handed
+// over to the first user who signs in on this device.
+export const OFFLINE_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+export interface SyncState {
+  status: 'local' | 'offline' | 'idle' | 'syncing' | 'error';
+  pending: number;
+  failed: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+// Columns that identify a row independently of its id (unique constraints).
+// A row with any of them null has no natural key, like a goal outside a series.
+const NATURAL_KEYS: { [T in SyncedTable]: (keyof TableRow<T>)[] | null } = {
+  goal_series: null,
+  goals: ['series_id', 'week_start'],
+  goal_adjustments: null,
+  daily_completions: ['goal_id', 'date'],
+  burnout_scoring_models: null,
+  burnout_checkins: ['user_id', 'date'],
+  weekly_reviews: ['user_id', 'week_start'],
+  user_preferences: ['user_id'],
+};
+
+// Rows that point at another table's id, moved along when sync replaces that id
+const CHILD_REFERENCES: Partial<Record<SyncedTable, { table: SyncedTable; column: string }[]>> = {
+  goals: [
+    { table: 'daily_completions', column: 'goal_id' },
+    { table: 'goal_adjustments', column: 'goal_id' },
+  ],
+};
+
+const SYNC_DELAY_MS = 500;
+
+let state: SyncState = {
+  status: supabase ? 'idle' : 'local',
+  pending: 0,
+  failed: 0,
+  lastSyncedAt: null,
+  error: null,
+};
+const listeners = new Set<() => void>();
+let activeUserId: string | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let running: Promise<void> | null = null;
+let runAgain = false;
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+export function subscribeSyncState(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function isNewer(a: string, b: string): boolean {
+  return new Date(a).getTime() > new Date(b).getTime();
+}
+
+async function refreshPendingCount() {
+  const pending = await getPendingChanges();
+  setState({
+    pending: pending.filter(change => !change.failedAt).length,
+    failed: pending.filter(change => change.failedAt).length,
+  });
+}
+
+// Rewrites rows and queued changes owned by the offline user to the signed-in user
+async function adoptOfflineRows(userId: string) {
+  for (const table of SYNCED_TABLES) {
+    const rows = await getAllRows(table, OFFLINE_USER_ID);
+    await putRows(table, rows.map(row => ({ ...row, user_id: userId })));
+  }
+
+  const pending = await getPendingChanges();
+  await putPendingChanges(
+    pending
+      .filter(change => change.row?.user_id === OFFLINE_USER_ID)
+      .map(change => ({ ...change, row: { ...change.row!, user_id: userId } }))
+  );
+}
+
+async function findRemoteRow<T extends SyncedTable>(table: T, row: TableRow<T>): Promise<TableRow<T> | null> {
+  // Queried over the union of synced tables; the builder cannot narrow a generic name
+  const remoteTable: SyncedTable = table;
+  const { data: byId, error } = await supabase!
+    .from(remoteTable)
+    .select('*')
+    .eq('id', row.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (byId) return byId as TableRow<T>;
+
+  const naturalKey = NATURAL_KEYS[table];
+  if (!naturalKey || naturalKey.some(column => row[column] === null)) return null;
+
+  const match: Record<string, unknown> = {};
+  naturalKey.forEach(column => {
+    match[column as string] = row[column];
+  });
+
+  const { data: byKey, error: keyError } = await supabase!
+    .from(remoteTable)
+    .select('*')
+    .match(match)
+    .maybeSingle();
+
+  if (keyError) throw keyError;
+  return byKey as TableRow<T> | null;
+}
+
+async function replaceRowId(table: SyncedTable, fromId: string, toId: string) {
+  await deleteRowsById(table, [fromId]);
+
+  for (const child of CHILD_REFERENCES[table] || []) {
+    const rows = (await getAllRows(child.table)) as Record<string, unknown>[];
+    await putRows(child.table, rows
+      .filter(row => row[child.column] === fromId)
+      .map(row => ({ ...row, [child.column]: toId })) as TableRow<typeof child.table>[]);
+  }
+}
+
+// Versions are numbered on the device that saves a model, so two devices
+// saving offline can pick the same one. The model pushed second moves to the
+// next free version and takes the check-ins it scored, still queued, with it.
+async function claimModelVersion(row: TableRow<'burnout_scoring_models'>): Promise<TableRow<'burnout_scoring_models'>> {
+  const { data, error } = await supabase!
+    .from('burnout_scoring_models')
+    .select('id, version')
+    .eq('user_id', row.user_id);
+  if (error) throw error;
+
+  const taken = (data || []).filter(model => model.id !== row.id);
+  if (!taken.some(model => model.version === row.version)) return row;
+
+  const claimed = { ...row, version: Math.max(...taken.map(model => model.version)) + 1 };
+  await putRows('burnout_scoring_models', [claimed]);
+
+  const pendingIds = new Set((await getPendingChanges()).map(change => change.rowId));
+  const checkins = await getAllRows('burnout_checkins', row.user_id);
+  await putRows('burnout_checkins', checkins
+    .filter(checkin => pendingIds.has(checkin.id) && checkin.model_version === row.version)
+    .map(checkin => ({ ...checkin, model_version: claimed.version })));
+
+  return claimed;
+}
+
+async function pushChange(change: PendingChange) {
+  const table = change.table;
+
+  if (change.op === 'delete') {
+    const { error } = await supabase!.from(table).delete().eq('id', change.rowId);
+    if (error) throw error;
+    return;
+  }
+
+  // Sent as stored now, which includes references moved by replaceRowId.
+  // Deleted locally since it was queued (e.g. by a cascade); nothing to send.
+  let row = await getRowById(table, change.rowId);
+  if (!row) return;
+
+  const remote = await findRemoteRow(table, row);
+
+  // Last write wins per row: a newer remote row replaces the queued change
+  if (remote && isNewer(remote.updated_at, row.updated_at)) {
+    await putRows(table, [remote]);
+    if (remote.id !== row.id) await replaceRowId(table, row.id, remote.id);
+    return;
+  }
+
+  if (table === 'burnout_scoring_models') {
+    row = await claimModelVersion(row as TableRow<'burnout_scoring_models'>);
+  }
+
+  const payload = remote && remote.id !== row.id ? { ...row, id: remote.id } : row;
+  const { error } = await supabase!.from(table).upsert(payload);
+  if (error) throw error;
+
+  // The same row was created on another device; keep the server's id
+  if (payload.id !== row.id) {
+    await putRows(table, [payload]);
+    await replaceRowId(table, row.id, payload.id);
+  }
+}
+
+function isNetworkError(error: unknown): boolean {
+  // PostgREST rejections carry an error code; fetch failures do not
+  return !(error && typeof error === 'object' && 'code' in error && (error as { code: unknown }).code);
+}
+
+async function pushPendingChanges(): Promise<boolean> {
+  const pending = (await getPendingChanges()).filter(change => !change.failedAt);
+
+  for (const change of pending) {
+    try {
+      await pushChange(change);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setState({ status: 'offline' });
+        return false;
+      }
+      // The server refused this change; set it aside so it cannot block the queue
+      console.error('Change rejected by server:', change, error);
+      const message = (error as { message?: string }).message || 'A change was rejected by the server.';
+      await putPendingChanges([{ ...change, failedAt: new Date().toISOString(), error: message }]);
+      setState({ error: message });
+      continue;
+    }
+    await removePendingChange(change.id!);
+  }
+
+  return true;
+}
+
+async function pullRemoteRows(userId: string) {
+  for (const table of SYNCED_TABLES) {
+    const { data, error } = await supabase!.from(table).select('*').eq('user_id', userId);
+    if (error) throw error;
+
+    await applyRemoteRows(table, userId, (data || []) as TableRow<typeof table>[]);
+  }
+}
+
+async function runSync() {
+  const userId = activeUserId;
+  if (!supabase || !userId) {
+    await refreshPendingCount();
+    return;
+  }
+
+  if (!navigator.onLine) {
+    setState({ status: 'offline' });
+    await refreshPendingCount();
+    return;
+  }
+
+  setState({ status: 'syncing', error: null });
+
+  try {
+    const pushed = await pushPendingChanges();
+    if (!pushed) return;
+
+    await pullRemoteRows(userId);
+    setState({ status: 'idle', lastSyncedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error syncing data:', error);
+    setState({
+      status: isNetworkError(error) ? 'offline' : 'error',
+      error: isNetworkError(error) ? null : (error as { message?: string }).message || 'Sync failed.',
+    });
+  } finally {
+    await refreshPendingCount();
+  }
+}
+
+// A call during a run queues one more pass, so writes made meanwhile are pushed
+export function syncNow(): Promise<void> {
+  if (running) {
+    runAgain = true;
+    return running;
+  }
+
+  running = (async () => {
+    do {
+      runAgain = false;
+      await runSync();
+    } while (runAgain);
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+}
+
+// Queues rejected changes again, e.g. after fixing what the server refused
+export async function retryFailedChanges() {
+  const failed = (await getPendingChanges()).filter(change => change.failedAt);
+  await putPendingChanges(failed.map(change => ({ ...change, failedAt: undefined, error: undefined })));
+  await syncNow();
+}
+
+// Drops rejected changes; the next pull restores the server's version of their rows
+export async function discardFailedChanges() {
+  const failed = (await getPendingChanges()).filter(change => change.failedAt);
+  for (const change of failed) {
+    await removePendingChange(change.id!);
+  }
+  await syncNow();
+}
+
+// Batches bursts of local writes into a single sync run
+export function requestSync() {
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncNow();
+  }, SYNC_DELAY_MS);
+}
+
+export function startSync(userId: string): () => void {
+  activeUserId = userId;
+
+  const handleOnline = () => syncNow();
+  window.addEventListener('online', handleOnline);
+
+  (userId !== OFFLINE_USER_ID ? adoptOfflineRows(userId) : Promise.resolve())
+    .then(() => syncNow())
+    .catch(error => console.error('Error starting sync:', error));
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (activeUserId === userId) activeUserId = null;
+  };
+}
@@ -0,0 +1,19 @@
+import type { Repositories, Goal, WeeklyReview } from './repositories';
+import { getStoredWeekRange } from '../utils/dates';
+
+// Goals of the week starting on weekStart, including any planned while weeks
+// started on another day
+export function listGoalsForWeek(repositories: Repositories, userId: string, weekStart: Date): Promise<Goal[]> {
+  const { from, to } = getStoredWeekRange(weekStart);
+  return repositories.goals.listByWeekRange(userId, from, to);
+}
+
+export async function getReviewForWeek(
+  repositories: Repositories,
+  userId: string,
+  weekStart: Date
+): Promise<WeeklyReview | null> {
+  const { from, to } = getStoredWeekRange(weekStart);
+  const [review = null] = await repositories.weeklyReviews.listByWeekRange(userId, from, to);
+  return review;
+}
@@ -1,10 +1,16 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { RepositoriesContext } from './hooks/useRepositories';
+import { createDefaultRepositories } from './lib/repositories';
 import './index.css';
 
+const repositories = createDefaultRepositories();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <RepositoriesContext.Provider value={repositories}>
+      <App />
+    </RepositoriesContext.Provider>
   </StrictMode>
 );
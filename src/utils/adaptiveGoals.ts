@@ -0,0 +1,89 @@
+import { getGoalProgress } from './progress';
+import { getBurnoutLevel, BurnoutScoringModel, DEFAULT_SCORING_MODEL } from './burnout';
+import type { GoalWeek } from './streaks';
+
+export interface AdaptiveGoalInput {
+  id: string;
+  title: string;
+  target_days: number;
+  target_period: 'daily' | 'weekly' | null;
+  history: GoalWeek[]; // every week of the goal, including the current one
+}
+
+export interface GoalAdjustmentProposal {
+  goalId: string;
+  title: string;
+  fromDays: number;
+  toDays: number;
+  reason: string;
+}
+
+// Check-ins needed in the window before burnout is trusted
+export const MIN_RECENT_CHECKINS = 3;
+// Completed weeks looked at to judge how a goal is going
+const HISTORY_WEEKS = 4;
+
+interface GoalRecord {
+  weeks: number;
+  avgDays: number; // days actually met per week
+  rate: number; // share of the weekly target reached
+}
+
+function goalRecord(history: GoalWeek[], currentWeek: string): GoalRecord {
+  const pastWeeks = history
+    .filter(week => week.week_start < currentWeek)
+    .sort((a, b) => a.week_start.localeCompare(b.week_start))
+    .slice(-HISTORY_WEEKS);
+
+  if (pastWeeks.length === 0) return { weeks: 0, avgDays: 0, rate: 0 };
+
+  const progress = pastWeeks.map(week => getGoalProgress(week.target, week.entries));
+  return {
+    weeks: pastWeeks.length,
+    avgDays: progress.reduce((sum, p) => sum + p.completedDays, 0) / pastWeeks.length,
+    rate: progress.reduce((sum, p) => sum + p.ratio, 0) / pastWeeks.length,
+  };
+}
+
+// Turns recent burnout and each goal's track record into concrete target
+// changes: cut back when burnout is high, match the target to what actually
+// gets done when burnout is moderate, and stretch goals that are met easily.
+export function proposeGoalAdjustments(
+  goals: AdaptiveGoalInput[],
+  recentScores: number[],
+  currentWeek: string,
+  model: BurnoutScoringModel = DEFAULT_SCORING_MODEL
+): GoalAdjustmentProposal[] {
+  if (recentScores.length < MIN_RECENT_CHECKINS) return [];
+
+  const avgScore = recentScores.reduce((sum, score) => sum + score, 0) / recentScores.length;
+  const level = getBurnoutLevel(avgScore, model).level;
+  const scoreLabel = `${Math.round(avgScore * 10) / 10}/10`;
+  const proposals: GoalAdjustmentProposal[] = [];
+
+  goals.forEach(goal => {
+    // Weekly amount targets do not depend on a number of days
+    if (goal.target_period === 'weekly') return;
+
+    const record = goalRecord(goal.history, currentWeek);
+    let toDays = goal.target_days;
+    let reason = '';
+
+    if (level === 'high') {
+      toDays = Math.max(1, Math.round(goal.target_days * 0.6));
+      reason = `Your burnout has averaged ${scoreLabel} lately. Easing off gives you room to recover.`;
+    } else if (level === 'moderate' && record.weeks >= 2 && record.rate < 0.6) {
+      toDays = Math.max(1, Math.round(record.avgDays));
+      reason = `You've managed about ${Math.round(record.avgDays * 10) / 10} days a week recently. A target you can hit keeps momentum without extra stress.`;
+    } else if (level === 'low' && record.weeks >= 2 && record.rate >= 0.9) {
+      toDays = Math.min(7, goal.target_days + 1);
+      reason = "You've reached this goal almost every week lately and your burnout is low. Ready for a little more?";
+    }
+
+    if (toDays !== goal.target_days) {
+      proposals.push({ goalId: goal.id, title: goal.title, fromDays: goal.target_days, toDays, reason });
+    }
+  });
+
+  return proposals;
+}
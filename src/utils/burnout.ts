@@ -1,3 +1,5 @@
+import { EXTRA_METRICS, WELLNESS_METRICS, MetricValues, WellnessMetric } from './metrics';
+
 export interface BurnoutMetrics {
   stress_level: number; // 1-5
   sleep_hours: number; // 0-12+
@@ -5,50 +7,166 @@ export interface BurnoutMetrics {
   time_spent_hours: number; // 0-24
 }
 
-export function calculateBurnoutScore(metrics: BurnoutMetrics): number {
+// Weights and thresholds behind a burnout score. Stored per user as numbered
+// versions so each check-in can be read with the model that scored it.
+export interface BurnoutModelConfig {
+  stress: { maxPoints: number }; // points at stress level 5
+  sleep: {
+    minHours: number; // below this, sleep deficit is penalised
+    deficitMaxPoints: number; // penalty at 0 hours
+    maxHours: number; // above this, oversleep is penalised
+    oversleepPerHour: number;
+    oversleepMaxPoints: number;
+  };
+  mood: { maxPoints: number }; // points at mood level 1
+  workload: {
+    thresholdHours: number; // hours before overwork is penalised
+    perHour: number;
+    maxPoints: number;
+  };
+  levels: {
+    low: number; // scores up to this are low
+    moderate: number; // scores up to this are moderate, above are high
+  };
+  // Points added at full strain for metrics outside the core four, by metric key
+  extraWeights?: Record<string, number>;
+}
+
+export interface BurnoutScoringModel {
+  version: number;
+  config: BurnoutModelConfig;
+}
+
+// Version 1 is the built-in model every user starts on. Check-ins saved
+// before models were versioned were scored with it.
+export const DEFAULT_SCORING_MODEL: BurnoutScoringModel = {
+  version: 1,
+  config: {
+    stress: { maxPoints: 4 },
+    sleep: { minHours: 6, deficitMaxPoints: 3, maxHours: 9, oversleepPerHour: 0.5, oversleepMaxPoints: 2 },
+    mood: { maxPoints: 3 },
+    workload: { thresholdHours: 8, perHour: 0.3, maxPoints: 3 },
+    levels: { low: 3, moderate: 6 },
+    extraWeights: {},
+  },
+};
+
+export interface BurnoutComponent {
+  metric: WellnessMetric;
+  points: number; // contribution to the score before it is capped at 10
+  reason: string;
+}
+
+export interface BurnoutBreakdown {
+  score: number;
+  components: BurnoutComponent[]; // only the metrics that added points
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Scores a check-in and explains it: each metric's contribution comes with a
+// plain-language reason such as "sleep under 6h added 1.5".
+export function explainBurnoutScore(
+  metrics: BurnoutMetrics,
+  model: BurnoutScoringModel = DEFAULT_SCORING_MODEL,
+  extras: MetricValues = {}
+): BurnoutBreakdown {
   const { stress_level, sleep_hours, mood_level, time_spent_hours } = metrics;
+  const { stress, sleep, mood, workload } = model.config;
+  const contributions: { key: string; points: number; reason: string }[] = [];
   
-  // Normalize stress (1-5 -> 0-10 scale, inverted so higher stress = higher score)
-  const stressScore = ((stress_level - 1) / 4) * 4; // 0-4 range
+  // Normalize stress (1-5, higher stress = higher score)
+  const stressScore = ((stress_level - 1) / 4) * stress.maxPoints;
+  contributions.push({ key: 'stress_level', points: stressScore, reason: `stress at ${stress_level}/5` });
   
-  // Normalize sleep (optimal 7-9 hours, penalize too little or too much)
-  let sleepScore = 0;
-  if (sleep_hours < 6) {
-    sleepScore = 3 - (sleep_hours / 6) * 3; // 3-0 for 0-6 hours
-  } else if (sleep_hours > 9) {
-    sleepScore = Math.min(2, (sleep_hours - 9) * 0.5); // Penalty for oversleep
+  // Penalize too little or too much sleep
+  if (sleep_hours < sleep.minHours) {
+    contributions.push({
+      key: 'sleep_hours',
+      points: sleep.deficitMaxPoints - (sleep_hours / sleep.minHours) * sleep.deficitMaxPoints,
+      reason: `sleep under ${sleep.minHours}h`,
+    });
+  } else if (sleep_hours > sleep.maxHours) {
+    contributions.push({
+      key: 'sleep_hours',
+      points: Math.min(sleep.oversleepMaxPoints, (sleep_hours - sleep.maxHours) * sleep.oversleepPerHour),
+      reason: `sleep over ${sleep.maxHours}h`,
+    });
   }
   
-  // Normalize mood (1-5 -> 0-3 scale, inverted so lower mood = higher score)
-  const moodScore = ((5 - mood_level) / 4) * 3; // 0-3 range
+  // Normalize mood (1-5, inverted so lower mood = higher score)
+  const moodScore = ((5 - mood_level) / 4) * mood.maxPoints;
+  contributions.push({ key: 'mood_level', points: moodScore, reason: `mood at ${mood_level}/5` });
   
-  // Normalize time spent (penalize excessive work hours)
-  let timeScore = 0;
-  if (time_spent_hours > 8) {
-    timeScore = Math.min(3, (time_spent_hours - 8) * 0.3); // Up to 3 points for overwork
+  // Penalize excessive work hours
+  if (time_spent_hours > workload.thresholdHours) {
+    contributions.push({
+      key: 'time_spent_hours',
+      points: Math.min(workload.maxPoints, (time_spent_hours - workload.thresholdHours) * workload.perHour),
+      reason: `work over ${workload.thresholdHours}h`,
+    });
   }
   
-  // Calculate total burnout score (0-10)
-  const totalScore = stressScore + sleepScore + moodScore + timeScore;
+  // Extra metrics only count when recorded and weighted by the model
+  EXTRA_METRICS.forEach(metric => {
+    const value = extras[metric.key];
+    const weight = model.config.extraWeights?.[metric.key] || 0;
+    if (typeof value === 'number' && metric.strain) {
+      contributions.push({
+        key: metric.key,
+        points: metric.strain(value) * weight,
+        reason: `${metric.label.toLowerCase()} at ${value}${metric.unit}`,
+      });
+    }
+  });
   
-  // Ensure score is within 0-10 range
-  return Math.round(Math.min(10, Math.max(0, totalScore)) * 10) / 10;
+  // Calculate total burnout score (0-10)
+  const totalScore = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+
+  return {
+    // Ensure score is within 0-10 range
+    score: round1(Math.min(10, Math.max(0, totalScore))),
+    components: contributions
+      .filter(contribution => round1(contribution.points) > 0)
+      .map(contribution => ({
+        metric: WELLNESS_METRICS.find(metric => metric.key === contribution.key)!,
+        points: round1(contribution.points),
+        reason: `${contribution.reason} added ${round1(contribution.points)}`,
+      })),
+  };
+}
+
+export function calculateBurnoutScore(
+  metrics: BurnoutMetrics,
+  model: BurnoutScoringModel = DEFAULT_SCORING_MODEL,
+  extras: MetricValues = {}
+): number {
+  return explainBurnoutScore(metrics, model, extras).score;
+}
+
+// Picks the model a check-in was scored with, falling back to the default
+// for check-ins saved before versioning or versions that are unknown here.
+export function findScoringModel(
+  models: BurnoutScoringModel[],
+  version: number | null | undefined
+): BurnoutScoringModel {
+  return models.find(model => model.version === (version ?? DEFAULT_SCORING_MODEL.version)) || DEFAULT_SCORING_MODEL;
 }
 
-export function getBurnoutLevel(score: number): {
+export function getBurnoutLevel(score: number, model: BurnoutScoringModel = DEFAULT_SCORING_MODEL): {
   level: 'low' | 'moderate' | 'high';
   color: string;
   bgColor: string;
   message: string;
 } {
-  if (score <= 3) {
+  if (score <= model.config.levels.low) {
     return {
       level: 'low',
       color: 'text-green-700',
       bgColor: 'bg-green-100',
       message: 'You\'re doing great! Keep up the healthy habits.'
     };
-  } else if (score <= 6) {
+  } else if (score <= model.config.levels.moderate) {
     return {
       level: 'moderate',
       color: 'text-yellow-700',
@@ -65,10 +183,11 @@ export function getBurnoutLevel(score: number): {
   }
 }
 
-export function getAdaptiveGoalSuggestion(burnoutScore: number): string {
-  if (burnoutScore >= 7) {
+export function getAdaptiveGoalSuggestion(burnoutScore: number, model: BurnoutScoringModel = DEFAULT_SCORING_MODEL): string {
+  const { level } = getBurnoutLevel(burnoutScore, model);
+  if (level === 'high') {
     return 'Consider reducing your weekly goals by 30-50% to focus on recovery.';
-  } else if (burnoutScore >= 4) {
+  } else if (level === 'moderate') {
     return 'You might want to maintain current goals but add more rest periods.';
   }
   return 'Your burnout levels look healthy - you can maintain or slightly increase your goals.';
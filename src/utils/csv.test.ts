@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads plain rows', () => {
+    expect(parseCsv('date,goal\n2026-10-12,Read\n')).toEqual([['date', 'goal'], ['2026-10-12', 'Read']]);
+  });
+
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    const text = 'title,notes\n"Read, then write","She said ""go""\nand went"\n';
+    expect(parseCsv(text)).toEqual([['title', 'notes'], ['Read, then write', 'She said "go"\nand went']]);
+  });
+
+  it('accepts CRLF line endings and a missing final line break', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFDate,Walk\n2026-10-12,2\n')[0]).toEqual(['Date', 'Walk']);
+  });
+
+  it('drops blank lines but keeps empty cells', () => {
+    expect(parseCsv('a,b\n\n,2\n , \n')).toEqual([['a', 'b'], ['', '2']]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [{ title: 'Read, "slowly"', notes: 'line one\nline two', days: 3 }];
+    expect(parseCsv(toCsv(rows, ['title', 'notes', 'days']))).toEqual([
+      ['title', 'notes', 'days'],
+      ['Read, "slowly"', 'line one\nline two', '3'],
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { subMonths, subWeeks, subYears, addDays, format } from 'date-fns';
+import { formatDate, parseDate } from './dates';
+import type { Granularity } from '../lib/analyticsData';
+
+export type RangePreset = '4w' | '12w' | '6m' | '1y' | 'all' | 'custom';
+
+export interface DateRange {
+  preset: RangePreset;
+  from: string | null; // null for all time
+  to: string;
+}
+
+// Each preset suggests a granularity that keeps the charts readable
+export const RANGE_PRESETS: { value: RangePreset; label: string; granularity: Granularity | null }[] = [
+  { value: '4w', label: '4 weeks', granularity: 'day' },
+  { value: '12w', label: '12 weeks', granularity: 'week' },
+  { value: '6m', label: '6 months', granularity: 'week' },
+  { value: '1y', label: '1 year', granularity: 'month' },
+  { value: 'all', label: 'All time', granularity: 'month' },
+  { value: 'custom', label: 'Custom', granularity: null },
+];
+
+// Resolves a preset to dates ending today. Ranges include today, so each
+// start is moved one day past the plain subtraction.
+export function presetRange(preset: Exclude<RangePreset, 'custom'>, today: Date): DateRange {
+  const to = formatDate(today);
+  switch (preset) {
+    case '4w':
+      return { preset, from: formatDate(addDays(subWeeks(today, 4), 1)), to };
+    case '12w':
+      return { preset, from: formatDate(addDays(subWeeks(today, 12), 1)), to };
+    case '6m':
+      return { preset, from: formatDate(addDays(subMonths(today, 6), 1)), to };
+    case '1y':
+      return { preset, from: formatDate(addDays(subYears(today, 1), 1)), to };
+    default:
+      return { preset, from: null, to };
+  }
+}
+
+export function describeRange(range: DateRange): string {
+  if (range.preset === 'all' || !range.from) return 'All time';
+  if (range.preset !== 'custom') return `Last ${RANGE_PRESETS.find(p => p.value === range.preset)!.label}`;
+  return `${format(parseDate(range.from), 'MMM d, yyyy')} – ${format(parseDate(range.to), 'MMM d, yyyy')}`;
+}
@@ -1,20 +1,80 @@
-import { startOfWeek, endOfWeek, format, eachDayOfInterval, isToday } from 'date-fns';
+import { startOfWeek, endOfWeek, addWeeks, addDays, subDays, format, eachDayOfInterval, isSameDay, parseISO, startOfDay, Day } from 'date-fns';
 
-export function getCurrentWeekStart(): Date {
-  return startOfWeek(new Date(), { weekStartsOn: 1 }); // Monday start
+// The user's preferred first day of the week and timezone, provided through
+// PreferencesContext
+export interface DateSettings {
+  weekStartsOn: Day;
+  timeZone: string | null; // the device's when null
 }
 
-export function getCurrentWeekEnd(): Date {
-  return endOfWeek(new Date(), { weekStartsOn: 1 });
+// Midnight of the current day in the preferred timezone
+export function getToday(settings: DateSettings): Date {
+  if (!settings.timeZone) return startOfDay(new Date());
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: settings.timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(new Date());
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return new Date(part('year'), part('month') - 1, part('day'));
+}
+
+// The time of day as HH:mm in the preferred timezone
+export function getCurrentTime(settings: DateSettings): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: settings.timeZone ?? undefined,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date());
+}
+
+export function getCurrentWeekStart(settings: DateSettings): Date {
+  return startOfWeek(getToday(settings), { weekStartsOn: settings.weekStartsOn });
+}
+
+export function getWeekStart(date: Date, settings: DateSettings): Date {
+  return startOfWeek(date, { weekStartsOn: settings.weekStartsOn });
+}
+
+export function shiftWeek(weekStart: Date, weeks: number): Date {
+  return addWeeks(weekStart, weeks);
+}
+
+export function isCurrentWeek(weekStart: Date, settings: DateSettings): boolean {
+  return isSameDay(weekStart, getCurrentWeekStart(settings));
+}
+
+// Parses a stored yyyy-MM-dd date as local midnight (new Date() would use UTC)
+export function parseDate(date: string): Date {
+  return parseISO(date);
+}
+
+export function getCurrentWeekEnd(settings: DateSettings): Date {
+  return endOfWeek(getToday(settings), { weekStartsOn: settings.weekStartsOn });
 }
 
+// Weeks stored before a change of start day keep their seven days
 export function getWeekDays(weekStart: Date): Date[] {
-  const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
-  return eachDayOfInterval({ start: weekStart, end: weekEnd });
+  return eachDayOfInterval({ start: weekStart, end: addDays(weekStart, 6) });
+}
+
+// Goals and reviews keep the start day their week had when they were saved.
+// A stored week belongs to the week starting on weekStart when it starts
+// within three days of it, as that is the week it shares most days with.
+// lastDay is the last day such a stored week can reach.
+export function getStoredWeekRange(weekStart: Date): { from: string; to: string; lastDay: string } {
+  return {
+    from: formatDate(subDays(weekStart, 3)),
+    to: formatDate(addDays(weekStart, 3)),
+    lastDay: formatDate(addDays(weekStart, 9)),
+  };
 }
 
 export function formatWeekRange(weekStart: Date): string {
-  const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
+  const weekEnd = addDays(weekStart, 6);
   return `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d, yyyy')}`;
 }
 
@@ -22,9 +82,15 @@ export function formatDate(date: Date): string {
   return format(date, 'yyyy-MM-dd');
 }
 
-export function formatDisplayDate(date: Date): string {
-  if (isToday(date)) {
+export function formatDisplayDate(date: Date, settings: DateSettings): string {
+  if (isSameDay(date, getToday(settings))) {
     return 'Today';
   }
   return format(date, 'EEE, MMM d');
-}
\ No newline at end of file
+}
+
+// Short weekday names in week order, starting from the preferred first day
+export function getWeekdayNames(settings: DateSettings): string[] {
+  const weekStart = getWeekStart(getToday(settings), settings);
+  return Array.from({ length: 7 }, (_, index) => format(addDays(weekStart, index), 'EEE'));
+}
@@ -0,0 +1,38 @@
+// Opens the dashboard on a week, a goal's detail or the check-in for a day.
+// Used by links from outside the app, such as calendar events.
+export interface AppLink {
+  week?: string;
+  goal?: string;
+  checkin?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function buildAppLink(baseUrl: string, link: AppLink): string {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+  (Object.keys(link) as (keyof AppLink)[]).forEach(key => {
+    if (link[key]) url.searchParams.set(key, link[key]!);
+  });
+  return url.toString();
+}
+
+export function readAppLink(search: string): AppLink | null {
+  const params = new URLSearchParams(search);
+  const week = params.get('week');
+  const goal = params.get('goal');
+  const checkin = params.get('checkin');
+
+  const link: AppLink = {
+    week: week && DATE_PATTERN.test(week) ? week : undefined,
+    goal: goal || undefined,
+    checkin: checkin && DATE_PATTERN.test(checkin) ? checkin : undefined,
+  };
+  return link.week || link.goal || link.checkin ? link : null;
+}
+
+// Drops the link from the address bar once it has been opened
+export function clearAppLink() {
+  window.history.replaceState(null, '', window.location.pathname);
+}
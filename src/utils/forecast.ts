@@ -0,0 +1,107 @@
+import { addDays, differenceInCalendarDays, getDay } from 'date-fns';
+import { formatDate, parseDate } from './dates';
+
+export interface ScorePoint {
+  date: string;
+  score: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  forecast: number;
+  lower: number; // bounds of the ~95% confidence band
+  upper: number;
+}
+
+export interface ForecastOptions {
+  days?: number;
+  alpha?: number; // level smoothing
+  beta?: number; // trend smoothing
+  phi?: number; // trend damping, so a short run does not extrapolate forever
+}
+
+// Fewer check-ins than this give no useful forecast
+export const MIN_FORECAST_HISTORY = 7;
+// History older than this is too stale to project from
+const MAX_STALENESS_DAYS = 7;
+// Pulls day-of-week effects toward zero when a weekday has few samples
+const WEEKDAY_SHRINKAGE = 2;
+
+const clampScore = (score: number) => Math.min(10, Math.max(0, score));
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Average deviation from the overall mean per weekday (0 = Sunday)
+function weekdayEffects(history: ScorePoint[]): number[] {
+  const mean = history.reduce((sum, point) => sum + point.score, 0) / history.length;
+  const sums = Array(7).fill(0);
+  const counts = Array(7).fill(0);
+
+  history.forEach(point => {
+    const day = getDay(parseDate(point.date));
+    sums[day] += point.score - mean;
+    counts[day]++;
+  });
+
+  return sums.map((sum, day) => sum / (counts[day] + WEEKDAY_SHRINKAGE));
+}
+
+// Projects the burnout score for the days after `today` using damped Holt
+// exponential smoothing on the deseasonalised series, then adds back the
+// day-of-week effects. Days without a check-in advance the level by the trend.
+export function forecastBurnout(history: ScorePoint[], today: string, options: ForecastOptions = {}): ForecastPoint[] {
+  const { days = 7, alpha = 0.4, beta = 0.1, phi = 0.9 } = options;
+  const sorted = [...history].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length < MIN_FORECAST_HISTORY) return [];
+
+  const lastDate = sorted[sorted.length - 1].date;
+  if (differenceInCalendarDays(parseDate(today), parseDate(lastDate)) > MAX_STALENESS_DAYS) return [];
+
+  const effects = weekdayEffects(sorted);
+  const adjusted = new Map(sorted.map(point => [point.date, point.score - effects[getDay(parseDate(point.date))]]));
+
+  let level = adjusted.get(sorted[0].date)!;
+  let trend = 0;
+  const errors: number[] = [];
+
+  const span = differenceInCalendarDays(parseDate(lastDate), parseDate(sorted[0].date));
+  for (let offset = 1; offset <= span; offset++) {
+    const predicted = level + phi * trend;
+    const observed = adjusted.get(formatDate(addDays(parseDate(sorted[0].date), offset)));
+
+    if (observed === undefined) {
+      level = predicted;
+      trend = phi * trend;
+      continue;
+    }
+
+    errors.push(observed - predicted);
+    const nextLevel = alpha * observed + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * phi * trend;
+    level = nextLevel;
+  }
+
+  const sigma = errors.length > 0
+    ? Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length)
+    : 0;
+
+  const forecast: ForecastPoint[] = [];
+  for (let step = 1; step <= days; step++) {
+    const date = addDays(parseDate(today), step);
+    const horizon = differenceInCalendarDays(date, parseDate(lastDate));
+
+    let dampedTrend = 0;
+    for (let i = 1; i <= horizon; i++) dampedTrend += Math.pow(phi, i) * trend;
+
+    const point = level + dampedTrend + effects[getDay(date)];
+    const margin = 1.96 * sigma * Math.sqrt(horizon);
+
+    forecast.push({
+      date: formatDate(date),
+      forecast: round1(clampScore(point)),
+      lower: round1(clampScore(point - margin)),
+      upper: round1(clampScore(point + margin)),
+    });
+  }
+
+  return forecast;
+}
@@ -0,0 +1,71 @@
+import { getDay, Day } from 'date-fns';
+import { getGoalProgress, isDayMet, GoalProgress } from './progress';
+import { parseDate } from './dates';
+import type { GoalWeek } from './streaks';
+
+export interface WeekdayRate {
+  weekday: number; // 0 = the preferred first day of the week
+  elapsed: number; // days of this weekday that have passed
+  met: number;
+  rate: number | null; // null before the weekday has come round once
+}
+
+export interface BurnoutComparison {
+  metAvg: number | null;
+  missedAvg: number | null;
+  metDays: number; // days done with a check-in
+  missedDays: number;
+}
+
+export interface GoalStats {
+  weeks: { week_start: string; progress: GoalProgress }[];
+  weekdays: WeekdayRate[];
+  burnout: BurnoutComparison;
+  daysMet: number;
+  daysElapsed: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Summarises a goal's history. Days still to come are left out, and today
+// only counts once it is done, so an unfinished day is never a miss.
+export function computeGoalStats(
+  history: GoalWeek[],
+  checkins: { date: string; burnout_score: number }[],
+  today: string,
+  weekStartsOn: Day
+): GoalStats {
+  const scoresByDate = new Map(checkins.map(checkin => [checkin.date, checkin.burnout_score]));
+  const weekdays = Array.from({ length: 7 }, (_, weekday) => ({ weekday, elapsed: 0, met: 0 }));
+  const metScores: number[] = [];
+  const missedScores: number[] = [];
+
+  const sorted = [...history].sort((a, b) => a.week_start.localeCompare(b.week_start));
+  sorted.forEach(week => {
+    week.entries.forEach(entry => {
+      const met = isDayMet(week.target, entry);
+      if (entry.date > today || (entry.date === today && !met)) return;
+
+      const counts = weekdays[(getDay(parseDate(entry.date)) - weekStartsOn + 7) % 7];
+      counts.elapsed++;
+      if (met) counts.met++;
+
+      const score = scoresByDate.get(entry.date);
+      if (score !== undefined) (met ? metScores : missedScores).push(score);
+    });
+  });
+
+  return {
+    weeks: sorted.map(week => ({ week_start: week.week_start, progress: getGoalProgress(week.target, week.entries) })),
+    weekdays: weekdays.map(counts => ({ ...counts, rate: counts.elapsed > 0 ? counts.met / counts.elapsed : null })),
+    burnout: {
+      metAvg: average(metScores),
+      missedAvg: average(missedScores),
+      metDays: metScores.length,
+      missedDays: missedScores.length,
+    },
+    daysMet: weekdays.reduce((sum, counts) => sum + counts.met, 0),
+    daysElapsed: weekdays.reduce((sum, counts) => sum + counts.elapsed, 0),
+  };
+}
@@ -0,0 +1,86 @@
+import { addDays, format } from 'date-fns';
+import { formatDate, parseDate } from './dates';
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  url?: string;
+  date: string; // yyyy-MM-dd
+  time?: string; // HH:mm, all-day when left out
+  durationMinutes?: number; // timed events only
+  days?: number; // all-day events only
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string[] {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = lines.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  lines.push(current);
+
+  return lines.map((part, index) => (index === 0 ? part : ` ${part}`));
+}
+
+function formatDateTime(date: Date): string {
+  return format(date, "yyyyMMdd'T'HHmmss");
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const start = parseDate(event.date);
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.time) {
+    // Floating times, so events stay at the same clock time in any timezone
+    const [hours, minutes] = event.time.split(':').map(Number);
+    const startAt = new Date(start.getFullYear(), start.getMonth(), start.getDate(), hours, minutes);
+    const endAt = new Date(startAt.getTime() + (event.durationMinutes ?? 30) * 60000);
+    lines.push(`DTSTART:${formatDateTime(startAt)}`, `DTEND:${formatDateTime(endAt)}`);
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(start, event.days ?? 1)).replace(/-/g, '')}`,
+      'TRANSP:TRANSPARENT'
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Writes an iCalendar (RFC 5545) file. Stable uids let a calendar app
+// replace events from an earlier import instead of duplicating them.
+export function createIcs(name: string, events: IcsEvent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//GoalSync//Weekly goals//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+}
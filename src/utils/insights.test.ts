@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { addDays } from 'date-fns';
+import {
+  findInsights,
+  pearson,
+  DailyWellness,
+  GoalDay,
+  MIN_GROUP_SIZE,
+  MIN_INSIGHT_SAMPLE,
+  MODERATE_T,
+  STRONG_T,
+} from './insights';
+import { formatDate, parseDate } from './dates';
+import { WELLNESS_METRICS } from './metrics';
+
+const SLEEP = WELLNESS_METRICS.find(metric => metric.key === 'sleep_hours')!;
+
+function tStatistic(r: number, n: number): number {
+  return Math.abs(r) * Math.sqrt((n - 2) / (1 - r ** 2));
+}
+
+// Consecutive days from a fixed start, each with a night's sleep and whether
+// the single goal was done
+function history(sleep: number[], done: boolean[]): { wellness: DailyWellness[]; goalDays: GoalDay[] } {
+  const dates = sleep.map((_, index) => formatDate(addDays(parseDate('2026-09-01'), index)));
+  return {
+    wellness: dates.map((date, index) => ({ date, values: { sleep_hours: sleep[index] } })),
+    goalDays: dates.map((date, index) => ({ goalKey: 'walk', title: 'Walk', date, met: done[index] })),
+  };
+}
+
+// Alternating good (8h) and poor (5h) nights. The goal is done after every
+// good night, and also after the first `poorDaysDone` poor ones.
+function alternating(days: number, poorDaysDone: number) {
+  const sleep = Array.from({ length: days }, (_, index) => (index % 2 === 0 ? 8 : 5));
+  let poorSeen = 0;
+  const done = sleep.map(hours => hours === 8 || poorSeen++ < poorDaysDone);
+  return { sleep, done };
+}
+
+function sameDay(days: number, poorDaysDone: number) {
+  const { sleep, done } = alternating(days, poorDaysDone);
+  const { wellness, goalDays } = history(sleep, done);
+  return findInsights(wellness, goalDays, [SLEEP]).filter(insight => insight.lag === 0);
+}
+
+describe('pearson', () => {
+  it('matches a known correlation', () => {
+    expect(pearson([1, 2, 3, 4, 5], [2, 4, 5, 4, 5])).toBeCloseTo(6 / Math.sqrt(60), 10);
+    expect(pearson([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10);
+    expect(pearson([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1, 10);
+  });
+
+  it('returns null without variation or enough pairs', () => {
+    expect(pearson([3, 3, 3], [1, 2, 3])).toBeNull();
+    expect(pearson([1, 2, 3], [4, 4, 4])).toBeNull();
+    expect(pearson([], [])).toBeNull();
+    expect(pearson([1], [1])).toBeNull();
+    expect(pearson([1, 2, 3], [1, 2])).toBeNull();
+  });
+});
+
+describe('findInsights', () => {
+  it('needs MIN_INSIGHT_SAMPLE days before reporting anything', () => {
+    const { sleep, done } = alternating(MIN_INSIGHT_SAMPLE - 1, 1);
+    expect(tStatistic(pearson(sleep, done.map(Number))!, sleep.length)).toBeGreaterThan(STRONG_T);
+
+    expect(sameDay(MIN_INSIGHT_SAMPLE - 1, 1)).toEqual([]);
+    expect(sameDay(MIN_INSIGHT_SAMPLE, 1)).toHaveLength(1);
+  });
+
+  it('needs MIN_GROUP_SIZE days on each side of the threshold', () => {
+    // Mostly good nights, so the median threshold leaves too few poor ones below it
+    const sleep = [...Array(16).fill(8), ...Array(MIN_GROUP_SIZE - 1).fill(5)];
+    const done = sleep.map((hours, index) => hours === 8 && index !== 0);
+    expect(tStatistic(pearson(sleep, done.map(Number))!, sleep.length)).toBeGreaterThan(MODERATE_T);
+
+    const { wellness, goalDays } = history(sleep, done);
+    expect(findInsights(wellness, goalDays, [SLEEP]).filter(insight => insight.lag === 0)).toEqual([]);
+  });
+
+  it('grades confidence by the MODERATE_T and STRONG_T cut-offs', () => {
+    const strong = alternating(14, 2);
+    const moderate = alternating(14, 3);
+    const weak = alternating(14, 4);
+    expect(tStatistic(pearson(strong.sleep, strong.done.map(Number))!, 14)).toBeGreaterThanOrEqual(STRONG_T);
+    expect(tStatistic(pearson(moderate.sleep, moderate.done.map(Number))!, 14)).toBeGreaterThanOrEqual(MODERATE_T);
+    expect(tStatistic(pearson(moderate.sleep, moderate.done.map(Number))!, 14)).toBeLessThan(STRONG_T);
+    expect(tStatistic(pearson(weak.sleep, weak.done.map(Number))!, 14)).toBeLessThan(MODERATE_T);
+
+    expect(sameDay(14, 2).map(insight => insight.confidence)).toEqual(['strong']);
+    expect(sameDay(14, 3).map(insight => insight.confidence)).toEqual(['moderate']);
+    expect(sameDay(14, 4)).toEqual([]);
+  });
+
+  it('describes the effect relative to the other days', () => {
+    const [insight] = sameDay(14, 1);
+    expect(insight).toMatchObject({ threshold: 6.5, rateAbove: 1, sampleSize: 14 });
+    expect(insight.rateBelow).toBeCloseTo(1 / 7, 10);
+    expect(insight.text).toBe('You complete 600% more of your goals on days with sleep of 6.5h or more.');
+  });
+
+  it('gives plain rates when the goal is never done on the other days', () => {
+    const sleep = Array.from({ length: 14 }, (_, index) => (index % 2 === 0 ? 8 : 5));
+    const done = sleep.map((hours, index) => hours === 8 && index !== 0);
+    const { wellness, goalDays } = history(sleep, done);
+
+    const [insight] = findInsights(wellness, goalDays, [SLEEP]).filter(result => result.lag === 0);
+    expect(insight.text).toBe('On days with sleep of 6.5h or more you complete 86% of your goals, against none on other days.');
+  });
+
+  it('lines up the day-after effect with the previous night', () => {
+    // Two good nights, two poor ones: today's sleep says nothing about today,
+    // but the goal is done after every good night except one
+    const sleep = Array.from({ length: 21 }, (_, index) => (index % 4 < 2 ? 8 : 5));
+    const done = sleep.map((_, index) => index > 0 && sleep[index - 1] === 8 && index !== 1);
+    const { wellness, goalDays } = history(sleep, done);
+
+    const insights = findInsights(wellness, goalDays, [SLEEP]);
+    expect(insights.map(insight => insight.lag)).toEqual([1]);
+    expect(insights[0]).toMatchObject({ id: 'all:sleep_hours:1', sampleSize: 20, rateAbove: 0.9, rateBelow: 0 });
+    expect(insights[0].text).toBe('On the day after sleep of 6.5h or more you complete 90% of your goals, against none on other days.');
+  });
+});
@@ -0,0 +1,195 @@
+import { subDays } from 'date-fns';
+import { formatDate, parseDate } from './dates';
+import { WELLNESS_METRICS, WellnessMetric, MetricValues } from './metrics';
+
+export interface DailyWellness {
+  date: string;
+  values: MetricValues;
+}
+
+// One planned day of a goal. Weekly instances of a series share a goalKey.
+export interface GoalDay {
+  goalKey: string;
+  title: string;
+  date: string;
+  met: boolean;
+}
+
+export type InsightConfidence = 'moderate' | 'strong';
+
+export interface Insight {
+  id: string;
+  metric: WellnessMetric;
+  goalKey: string | null; // null for all goals together
+  lag: 0 | 1; // 1 when the metric is from the day before
+  threshold: number;
+  rateAbove: number; // completion rate when the metric is at or above the threshold
+  rateBelow: number;
+  correlation: number;
+  sampleSize: number;
+  confidence: InsightConfidence;
+  text: string;
+}
+
+// Days with both a metric value and planned goals needed before testing
+export const MIN_INSIGHT_SAMPLE = 14;
+// Days needed on each side of the threshold
+export const MIN_GROUP_SIZE = 5;
+// t statistics for the correlation. Many pairs are tested at once, so these
+// are stricter than the usual 2.0 to keep chance patterns out.
+export const MODERATE_T = 2.6;
+export const STRONG_T = 3.3;
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 2 || ys.length !== n) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function describeCondition(metric: WellnessMetric, lag: 0 | 1, threshold: number): string {
+  const amount = `${threshold}${metric.unit}`;
+  return `${lag === 1 ? 'the day after' : 'days with'} ${metric.label.toLowerCase()} of ${amount} or more`;
+}
+
+function describeEffect(rateAbove: number, rateBelow: number): string {
+  const change = Math.round(Math.abs(rateAbove - rateBelow) / rateBelow * 100);
+  return `${change}% ${rateAbove > rateBelow ? 'more' : 'less'}`;
+}
+
+function describeInsight(title: string | null, condition: string, rateAbove: number, rateBelow: number): string {
+  // A relative change from zero means nothing, so give the plain rates
+  if (rateBelow === 0) {
+    const subject = title ? `"${title}"` : 'your goals';
+    return `On ${condition} you complete ${Math.round(rateAbove * 100)}% of ${subject}, against none on other days.`;
+  }
+  const effect = describeEffect(rateAbove, rateBelow);
+  return title
+    ? `You're ${effect} likely to do "${title}" on ${condition}.`
+    : `You complete ${effect} of your goals on ${condition}.`;
+}
+
+// Tests one metric against one outcome series (date -> completion rate)
+function testPair(
+  wellnessByDate: Map<string, MetricValues>,
+  outcomes: Map<string, number>,
+  metric: WellnessMetric,
+  lag: 0 | 1
+): Omit<Insight, 'id' | 'goalKey' | 'text'> | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  outcomes.forEach((outcome, date) => {
+    const metricDate = lag === 0 ? date : formatDate(subDays(parseDate(date), 1));
+    const value = wellnessByDate.get(metricDate)?.[metric.key];
+    if (typeof value === 'number') {
+      xs.push(value);
+      ys.push(outcome);
+    }
+  });
+
+  if (xs.length < MIN_INSIGHT_SAMPLE) return null;
+
+  const correlation = pearson(xs, ys);
+  if (correlation === null || Math.abs(correlation) >= 1) return null;
+
+  const t = Math.abs(correlation) * Math.sqrt((xs.length - 2) / (1 - correlation ** 2));
+  if (t < MODERATE_T) return null;
+
+  const threshold = median(xs);
+  const above = ys.filter((_, i) => xs[i] >= threshold);
+  const below = ys.filter((_, i) => xs[i] < threshold);
+  if (above.length < MIN_GROUP_SIZE || below.length < MIN_GROUP_SIZE) return null;
+
+  return {
+    metric,
+    lag,
+    threshold,
+    rateAbove: mean(above),
+    rateBelow: mean(below),
+    correlation,
+    sampleSize: xs.length,
+    confidence: t >= STRONG_T ? 'strong' : 'moderate',
+  };
+}
+
+// Relates each wellness metric, on the same day and the day before, to goal
+// completion overall and per goal. Only patterns with enough days on both
+// sides and a clear correlation are returned, strongest first.
+export function findInsights(
+  wellness: DailyWellness[],
+  goalDays: GoalDay[],
+  metrics: WellnessMetric[] = WELLNESS_METRICS
+): Insight[] {
+  const wellnessByDate = new Map(wellness.map(day => [day.date, day.values]));
+
+  // Share of planned goals met per day, overall and per goal
+  const overall = new Map<string, { met: number; planned: number }>();
+  const perGoal = new Map<string, { title: string; outcomes: Map<string, number> }>();
+
+  goalDays.forEach(day => {
+    const totals = overall.get(day.date) || { met: 0, planned: 0 };
+    totals.planned++;
+    if (day.met) totals.met++;
+    overall.set(day.date, totals);
+
+    const goal = perGoal.get(day.goalKey) || { title: day.title, outcomes: new Map<string, number>() };
+    goal.outcomes.set(day.date, day.met ? 1 : 0);
+    perGoal.set(day.goalKey, goal);
+  });
+
+  const scopes: { goalKey: string | null; title: string | null; outcomes: Map<string, number> }[] = [
+    {
+      goalKey: null,
+      title: null,
+      outcomes: new Map([...overall].map(([date, totals]) => [date, totals.met / totals.planned])),
+    },
+    // With a single goal the per-goal results would repeat the overall ones
+    ...(perGoal.size > 1
+      ? [...perGoal].map(([goalKey, goal]) => ({ goalKey, title: goal.title, outcomes: goal.outcomes }))
+      : []),
+  ];
+
+  const insights: Insight[] = [];
+  scopes.forEach(scope => {
+    metrics.forEach(metric => {
+      ([0, 1] as const).forEach(lag => {
+        const result = testPair(wellnessByDate, scope.outcomes, metric, lag);
+        if (!result) return;
+
+        const condition = describeCondition(metric, lag, result.threshold);
+        insights.push({
+          ...result,
+          id: `${scope.goalKey || 'all'}:${metric.key}:${lag}`,
+          goalKey: scope.goalKey,
+          text: describeInsight(scope.title, condition, result.rateAbove, result.rateBelow),
+        });
+      });
+    });
+  });
+
+  return insights.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+}
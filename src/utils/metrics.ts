@@ -0,0 +1,159 @@
+import { Heart, Moon, Smile, Clock, Dumbbell, Coffee, MonitorSmartphone, Users, LucideIcon } from 'lucide-react';
+import type { BurnoutMetrics } from './burnout';
+
+export interface WellnessMetric {
+  key: string;
+  label: string; // short name for charts and settings
+  prompt: string; // question asked in the check-in form
+  icon: LucideIcon;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  defaultValue: number;
+  color: string; // chart line colour
+  // Core metrics live in their own check-in column and are scored by the
+  // scoring model's built-in rules; all others are kept in `extras`.
+  column?: keyof BurnoutMetrics;
+  // Strain from 0 to 1 for a recorded value, scaled by the model's weight
+  strain?: (value: number) => number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const WELLNESS_METRICS: WellnessMetric[] = [
+  {
+    key: 'stress_level',
+    label: 'Stress',
+    prompt: 'How stressed do you feel today?',
+    icon: Heart,
+    min: 1,
+    max: 5,
+    step: 1,
+    unit: '',
+    defaultValue: 3,
+    color: '#ef4444',
+    column: 'stress_level',
+  },
+  {
+    key: 'sleep_hours',
+    label: 'Sleep',
+    prompt: 'How many hours did you sleep last night?',
+    icon: Moon,
+    min: 0,
+    max: 12,
+    step: 0.5,
+    unit: 'h',
+    defaultValue: 8,
+    color: '#6366f1',
+    column: 'sleep_hours',
+  },
+  {
+    key: 'mood_level',
+    label: 'Mood',
+    prompt: 'How would you rate your mood today?',
+    icon: Smile,
+    min: 1,
+    max: 5,
+    step: 1,
+    unit: '',
+    defaultValue: 3,
+    color: '#f59e0b',
+    column: 'mood_level',
+  },
+  {
+    key: 'time_spent_hours',
+    label: 'Work',
+    prompt: 'How many hours will you spend on tasks today?',
+    icon: Clock,
+    min: 0,
+    max: 16,
+    step: 0.5,
+    unit: 'h',
+    defaultValue: 8,
+    color: '#10b981',
+    column: 'time_spent_hours',
+  },
+  {
+    key: 'exercise_minutes',
+    label: 'Exercise',
+    prompt: 'How many minutes did you exercise?',
+    icon: Dumbbell,
+    min: 0,
+    max: 180,
+    step: 5,
+    unit: 'min',
+    defaultValue: 0,
+    color: '#14b8a6',
+    strain: value => 1 - clamp01(value / 30),
+  },
+  {
+    key: 'caffeine_cups',
+    label: 'Caffeine',
+    prompt: 'How many caffeinated drinks did you have?',
+    icon: Coffee,
+    min: 0,
+    max: 10,
+    step: 1,
+    unit: '',
+    defaultValue: 0,
+    color: '#92400e',
+    strain: value => clamp01((value - 2) / 4),
+  },
+  {
+    key: 'screen_hours',
+    label: 'Screen time',
+    prompt: 'How many hours of screen time outside work?',
+    icon: MonitorSmartphone,
+    min: 0,
+    max: 16,
+    step: 0.5,
+    unit: 'h',
+    defaultValue: 0,
+    color: '#0ea5e9',
+    strain: value => clamp01((value - 4) / 8),
+  },
+  {
+    key: 'social_hours',
+    label: 'Social time',
+    prompt: 'How many hours did you spend with other people?',
+    icon: Users,
+    min: 0,
+    max: 12,
+    step: 0.5,
+    unit: 'h',
+    defaultValue: 0,
+    color: '#ec4899',
+    strain: value => 1 - clamp01(value / 2),
+  },
+];
+
+export const CORE_METRICS = WELLNESS_METRICS.filter(metric => metric.column);
+export const EXTRA_METRICS = WELLNESS_METRICS.filter(metric => !metric.column);
+
+export type MetricValues = Record<string, number>;
+
+// Flattens a check-in's columns and extras into one value per recorded metric
+export function readMetricValues(checkin: BurnoutMetrics & { extras: MetricValues | null }): MetricValues {
+  const values: MetricValues = {};
+  WELLNESS_METRICS.forEach(metric => {
+    const value = metric.column ? checkin[metric.column] : checkin.extras?.[metric.key];
+    if (typeof value === 'number') values[metric.key] = value;
+  });
+  return values;
+}
+
+// Splits form values back into the check-in columns and the extras object
+export function splitMetricValues(values: MetricValues): { columns: BurnoutMetrics; extras: MetricValues } {
+  const columns = {} as BurnoutMetrics;
+  CORE_METRICS.forEach(metric => {
+    columns[metric.column!] = values[metric.key] ?? metric.defaultValue;
+  });
+
+  const extras: MetricValues = {};
+  EXTRA_METRICS.forEach(metric => {
+    if (typeof values[metric.key] === 'number') extras[metric.key] = values[metric.key];
+  });
+
+  return { columns, extras };
+}
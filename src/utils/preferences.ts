@@ -0,0 +1,58 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface Preferences {
+  week_starts_on: number; // 0 = Sunday ... 6 = Saturday
+  timezone: string | null; // the device's timezone when null
+  default_target_days: number;
+  units: UnitSystem;
+  reminder_time: string | null; // HH:mm, no reminder when null
+  streak_rest_days: number | null; // days a week a daily streak may miss; the goal's free days when null
+}
+
+// Matches the column defaults, for users who have never saved a preference
+export const DEFAULT_PREFERENCES: Preferences = {
+  week_starts_on: 1,
+  timezone: null,
+  default_target_days: 5,
+  units: 'metric',
+  reminder_time: '20:00',
+  streak_rest_days: null,
+};
+
+export const STREAK_REST_DAY_OPTIONS = [
+  { value: null, label: 'Days off the target' },
+  { value: 0, label: 'None' },
+  { value: 1, label: '1 per week' },
+  { value: 2, label: '2 per week' },
+];
+
+export const WEEK_START_OPTIONS = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+// Offered while typing a goal's unit
+export const UNIT_SUGGESTIONS: Record<UnitSystem, string[]> = {
+  metric: ['km', 'm', 'kg', 'g', 'L', 'ml', 'min', 'h', 'pages', 'reps', 'steps'],
+  imperial: ['mi', 'ft', 'lb', 'oz', 'fl oz', 'cups', 'min', 'h', 'pages', 'reps', 'steps'],
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Every IANA timezone the browser knows, or just the device's on older browsers
+export function listTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [getDeviceTimezone()];
+}
@@ -0,0 +1,82 @@
+export interface GoalTarget {
+  target_days: number;
+  unit: string | null;
+  target_amount: number | null;
+  target_period: 'daily' | 'weekly' | null;
+}
+
+export interface DayEntry {
+  completed: boolean;
+  value: number | null;
+}
+
+export interface GoalProgress {
+  ratio: number; // 0-1, share of the weekly target reached
+  completedDays: number;
+  total: number; // amount recorded (quantitative) or days completed
+  target: number; // target amount for the week or target days
+  label: string;
+}
+
+export function isQuantitative(goal: GoalTarget): boolean {
+  return Boolean(goal.target_amount && goal.target_amount > 0);
+}
+
+// Whether a single day counts as done for the goal
+export function isDayMet(goal: GoalTarget, entry: DayEntry): boolean {
+  if (!isQuantitative(goal)) return entry.completed;
+  const value = entry.value || 0;
+  return goal.target_period === 'weekly' ? value > 0 : value >= goal.target_amount!;
+}
+
+function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? String(amount) : amount.toFixed(1);
+}
+
+export function formatTarget(goal: GoalTarget): string {
+  if (!isQuantitative(goal)) {
+    return `${goal.target_days} day${goal.target_days !== 1 ? 's' : ''} per week`;
+  }
+  const amount = `${formatAmount(goal.target_amount!)}${goal.unit ? ` ${goal.unit}` : ''}`;
+  return goal.target_period === 'weekly'
+    ? `${amount} per week`
+    : `${amount} a day, ${goal.target_days} day${goal.target_days !== 1 ? 's' : ''} per week`;
+}
+
+// Daily targets earn partial credit for partial days; weekly targets add up
+// every amount recorded during the week.
+export function getGoalProgress(goal: GoalTarget, entries: DayEntry[]): GoalProgress {
+  const completedDays = entries.filter(entry => isDayMet(goal, entry)).length;
+
+  if (!isQuantitative(goal)) {
+    return {
+      ratio: Math.min(1, completedDays / goal.target_days),
+      completedDays,
+      total: completedDays,
+      target: goal.target_days,
+      label: `${completedDays}/${goal.target_days} days`,
+    };
+  }
+
+  const total = entries.reduce((sum, entry) => sum + (entry.value || 0), 0);
+  const unit = goal.unit ? ` ${goal.unit}` : '';
+
+  if (goal.target_period === 'weekly') {
+    return {
+      ratio: Math.min(1, total / goal.target_amount!),
+      completedDays,
+      total,
+      target: goal.target_amount!,
+      label: `${formatAmount(total)}/${formatAmount(goal.target_amount!)}${unit}`,
+    };
+  }
+
+  const credit = entries.reduce((sum, entry) => sum + Math.min(1, (entry.value || 0) / goal.target_amount!), 0);
+  return {
+    ratio: Math.min(1, credit / goal.target_days),
+    completedDays,
+    total,
+    target: goal.target_amount! * goal.target_days,
+    label: `${completedDays}/${goal.target_days} days · ${formatAmount(total)}${unit}`,
+  };
+}
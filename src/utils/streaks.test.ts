@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { addDays } from 'date-fns';
+import { computeDailyStreak, computeWeeklyStreak, GoalWeek } from './streaks';
+import { formatDate, parseDate } from './dates';
+
+const DAILY_TARGET = { target_days: 5, unit: null, target_amount: null, target_period: null };
+
+// A week of a 5-day goal with the given days (0 = week start) done
+function week(weekStart: string, doneDays: number[], targetDays = 5): GoalWeek {
+  return {
+    week_start: weekStart,
+    target: { ...DAILY_TARGET, target_days: targetDays },
+    entries: doneDays.map(offset => ({
+      date: formatDate(addDays(parseDate(weekStart), offset)),
+      completed: true,
+      value: null,
+    })),
+  };
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+describe('computeDailyStreak', () => {
+  it('counts a run across the boundary between two weeks', () => {
+    const weeks = [week('2026-10-05', EVERY_DAY), week('2026-10-12', [0, 1])];
+    expect(computeDailyStreak(weeks, '2026-10-13')).toEqual({ current: 9, longest: 9 });
+  });
+
+  it('does not break the run on an unmet today', () => {
+    const weeks = [week('2026-10-12', [0, 1])];
+    expect(computeDailyStreak(weeks, '2026-10-14', { restDays: 0 })).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('skips up to the rest-day allowance without breaking the run', () => {
+    // Target 5 leaves two rest days: Wednesday and Thursday are skipped
+    const weeks = [week('2026-10-12', [0, 1, 4, 5])];
+    expect(computeDailyStreak(weeks, '2026-10-18')).toEqual({ current: 4, longest: 4 });
+  });
+
+  it('breaks the run once the rest days of the week are spent', () => {
+    const weeks = [week('2026-10-12', [0, 4, 5])];
+    expect(computeDailyStreak(weeks, '2026-10-18')).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('does not carry unused rest days into the next week', () => {
+    const weeks = [week('2026-10-05', EVERY_DAY), week('2026-10-12', [3, 4, 5, 6])];
+    expect(computeDailyStreak(weeks, '2026-10-19')).toEqual({ current: 4, longest: 7 });
+  });
+
+  it('uses a fixed rest-day allowance when given one', () => {
+    const weeks = [week('2026-10-12', [0, 2, 3])];
+    expect(computeDailyStreak(weeks, '2026-10-15', { restDays: 0 })).toEqual({ current: 2, longest: 2 });
+    expect(computeDailyStreak(weeks, '2026-10-15', { restDays: 1 })).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('ends the run at a week with no instance', () => {
+    const weeks = [week('2026-09-28', EVERY_DAY), week('2026-10-12', [0, 1])];
+    expect(computeDailyStreak(weeks, '2026-10-14')).toEqual({ current: 2, longest: 7 });
+  });
+
+  it('ends the run when nothing was tracked between the last week and now', () => {
+    const weeks = [week('2026-06-01', EVERY_DAY)];
+    expect(computeDailyStreak(weeks, '2026-10-19')).toEqual({ current: 0, longest: 7 });
+  });
+
+  it('keeps the run on the first day after the last tracked week', () => {
+    const weeks = [week('2026-10-12', EVERY_DAY)];
+    expect(computeDailyStreak(weeks, '2026-10-19')).toEqual({ current: 7, longest: 7 });
+    expect(computeDailyStreak(weeks, '2026-10-20').current).toBe(0);
+  });
+
+  it('ignores days after today', () => {
+    const weeks = [week('2026-10-12', EVERY_DAY)];
+    expect(computeDailyStreak(weeks, '2026-10-14')).toEqual({ current: 3, longest: 3 });
+  });
+});
+
+describe('computeWeeklyStreak', () => {
+  it('counts consecutive weeks that reached the target', () => {
+    const weeks = [week('2026-09-28', [0, 1, 2, 3, 4]), week('2026-10-05', EVERY_DAY), week('2026-10-12', [0, 1, 2, 3, 4])];
+    expect(computeWeeklyStreak(weeks, '2026-10-19')).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('does not break the run on the current week before it is met', () => {
+    const weeks = [week('2026-10-05', EVERY_DAY), week('2026-10-12', [0])];
+    expect(computeWeeklyStreak(weeks, '2026-10-14')).toEqual({ current: 1, longest: 1 });
+  });
+
+  it('resets on a missed past week', () => {
+    const weeks = [week('2026-09-28', EVERY_DAY), week('2026-10-05', [0]), week('2026-10-12', EVERY_DAY)];
+    expect(computeWeeklyStreak(weeks, '2026-10-19')).toEqual({ current: 1, longest: 1 });
+  });
+
+  it('ends the run when nothing was tracked between the last week and now', () => {
+    const weeks = [week('2026-06-01', EVERY_DAY)];
+    expect(computeWeeklyStreak(weeks, '2026-10-19')).toEqual({ current: 0, longest: 1 });
+  });
+
+  it('follows weeks that start on a Sunday', () => {
+    // Sunday-start weeks back to back, checked on the Saturday closing the second
+    const weeks = [week('2026-10-04', EVERY_DAY), week('2026-10-11', EVERY_DAY)];
+    expect(computeWeeklyStreak(weeks, '2026-10-17')).toEqual({ current: 2, longest: 2 });
+    expect(computeDailyStreak(weeks, '2026-10-17')).toEqual({ current: 14, longest: 14 });
+  });
+
+  it('keeps the run across a change of start day', () => {
+    // Monday-start weeks, then a Sunday-start week sharing the Sunday with the last one
+    const weeks = [week('2026-09-28', EVERY_DAY), week('2026-10-05', EVERY_DAY), week('2026-10-11', EVERY_DAY)];
+    expect(computeWeeklyStreak(weeks, '2026-10-17')).toEqual({ current: 3, longest: 3 });
+    expect(computeDailyStreak(weeks, '2026-10-17')).toEqual({ current: 20, longest: 20 });
+  });
+});
@@ -0,0 +1,130 @@
+import { addDays, subDays, differenceInCalendarDays } from 'date-fns';
+import { formatDate, parseDate } from './dates';
+import { GoalTarget, DayEntry, isDayMet, getGoalProgress } from './progress';
+
+// One weekly instance of a goal together with its recorded days
+export interface GoalWeek {
+  week_start: string;
+  target: GoalTarget;
+  entries: (DayEntry & { date: string })[];
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+}
+
+export interface GoalStreaks {
+  daily: StreakSummary;
+  weekly: StreakSummary;
+}
+
+export interface StreakOptions {
+  // Misses allowed per week without breaking a daily streak. 'auto' allows
+  // the days a goal does not ask for (7 - target_days).
+  restDays?: 'auto' | number;
+}
+
+// Weeks planned before and after a change of start day are a few days more
+// or less than a whole number of weeks apart
+function weeksBetween(fromWeek: string, toWeek: string): number {
+  return Math.round(differenceInCalendarDays(parseDate(toWeek), parseDate(fromWeek)) / 7);
+}
+
+function lastDayOf(week: GoalWeek): string {
+  return formatDate(addDays(parseDate(week.week_start), 6));
+}
+
+function restDaysFor(target: GoalTarget, options: StreakOptions): number {
+  const restDays = options.restDays ?? 'auto';
+  return restDays === 'auto' ? Math.max(0, 7 - target.target_days) : restDays;
+}
+
+// Daily streak: consecutive met days. Each calendar week may skip up to its
+// rest-day allowance; skipped days neither count nor break the run. Today is
+// still in progress, so an unmet today never breaks the current streak, and
+// rest days are only spent on days up to yesterday.
+export function computeDailyStreak(weeks: GoalWeek[], today: string, options: StreakOptions = {}): StreakSummary {
+  const sorted = [...weeks].sort((a, b) => a.week_start.localeCompare(b.week_start));
+  let current = 0;
+  let longest = 0;
+
+  sorted.forEach((week, index) => {
+    // A week with no instance (e.g. a paused habit) breaks the run
+    const previous = sorted[index - 1];
+    if (previous && weeksBetween(previous.week_start, week.week_start) > 1) {
+      current = 0;
+    }
+
+    const entriesByDate = new Map(week.entries.map(entry => [entry.date, entry]));
+    let restDaysLeft = restDaysFor(week.target, options);
+
+    for (let offset = 0; offset < 7; offset++) {
+      const date = formatDate(addDays(parseDate(week.week_start), offset));
+      if (date > today) break;
+      // Already counted with the previous week when the start day changed between them
+      if (previous && date <= lastDayOf(previous)) continue;
+
+      const entry = entriesByDate.get(date);
+      if (entry && isDayMet(week.target, entry)) {
+        current++;
+        longest = Math.max(longest, current);
+      } else if (date === today) {
+        continue;
+      } else if (restDaysLeft > 0) {
+        restDaysLeft--;
+      } else {
+        current = 0;
+      }
+    }
+  });
+
+  // Untracked days between the last tracked week and yesterday end the run
+  const last = sorted[sorted.length - 1];
+  const yesterday = formatDate(subDays(parseDate(today), 1));
+  if (last && lastDayOf(last) < yesterday) {
+    current = 0;
+  }
+
+  return { current, longest };
+}
+
+// Weekly streak: consecutive weeks in which the weekly target was reached.
+// The current week only counts once it is met and never breaks the run.
+export function computeWeeklyStreak(weeks: GoalWeek[], today: string): StreakSummary {
+  const sorted = [...weeks]
+    .filter(week => week.week_start <= today)
+    .sort((a, b) => a.week_start.localeCompare(b.week_start));
+  let current = 0;
+  let longest = 0;
+
+  sorted.forEach((week, index) => {
+    const previous = sorted[index - 1];
+    if (previous && weeksBetween(previous.week_start, week.week_start) > 1) {
+      current = 0;
+    }
+
+    const met = getGoalProgress(week.target, week.entries).ratio >= 1;
+    if (met) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (lastDayOf(week) < today) {
+      current = 0;
+    }
+  });
+
+  // A gap between the last tracked week and now also ends the run
+  const last = sorted[sorted.length - 1];
+  if (last && lastDayOf(last) < formatDate(subDays(parseDate(today), 7))) {
+    current = 0;
+  }
+
+  return { current, longest };
+}
+
+export function computeGoalStreaks(weeks: GoalWeek[], today: string, options: StreakOptions = {}): GoalStreaks {
+  return {
+    daily: computeDailyStreak(weeks, today, options),
+    weekly: computeWeeklyStreak(weeks, today),
+  };
+}
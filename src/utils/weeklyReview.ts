@@ -0,0 +1,87 @@
+import { getGoalProgress, isDayMet, GoalProgress, GoalTarget, DayEntry } from './progress';
+
+export type ReviewAction = 'keep' | 'adjust' | 'drop';
+
+// What was decided for a goal in a review, kept with the reflections
+export interface ReviewDecision {
+  goal_title: string;
+  action: ReviewAction;
+  from_days: number;
+  to_days: number;
+}
+
+export interface ReviewGoal extends GoalTarget {
+  id: string;
+  title: string;
+}
+
+export interface ReviewDay {
+  date: string;
+  planned: number;
+  met: number;
+  burnoutScore: number | null;
+}
+
+export interface WeekSummary<G extends ReviewGoal = ReviewGoal> {
+  goals: { goal: G; progress: GoalProgress }[];
+  completionRate: number | null; // average progress over the week's goals
+  avgBurnoutScore: number | null;
+  bestDay: ReviewDay | null;
+  worstDay: ReviewDay | null;
+}
+
+const dayRatio = (day: ReviewDay) => (day.planned > 0 ? day.met / day.planned : 0);
+
+// Ranks days by the share of goals met, breaking ties by burnout. Weeks
+// without goals fall back to burnout alone.
+function compareDays(a: ReviewDay, b: ReviewDay): number {
+  const byRatio = dayRatio(b) - dayRatio(a);
+  if (byRatio !== 0) return byRatio;
+  return (a.burnoutScore ?? 10) - (b.burnoutScore ?? 10);
+}
+
+// Summarises a week for its review. Days after `today` are left out so a
+// review held on the weekend does not count the days still to come.
+export function summarizeWeek<G extends ReviewGoal>(
+  goals: G[],
+  completions: (DayEntry & { goal_id: string; date: string })[],
+  checkins: { date: string; burnout_score: number }[],
+  weekDates: string[],
+  today: string
+): WeekSummary<G> {
+  const goalsById = new Map(goals.map(goal => [goal.id, goal]));
+  const scoresByDate = new Map(checkins.map(checkin => [checkin.date, checkin.burnout_score]));
+
+  const days: ReviewDay[] = weekDates
+    .filter(date => date <= today)
+    .map(date => {
+      const dayCompletions = completions.filter(c => c.date === date && goalsById.has(c.goal_id));
+      return {
+        date,
+        planned: dayCompletions.length,
+        met: dayCompletions.filter(c => isDayMet(goalsById.get(c.goal_id)!, c)).length,
+        burnoutScore: scoresByDate.get(date) ?? null,
+      };
+    });
+
+  const candidates = days.some(day => day.planned > 0)
+    ? days.filter(day => day.planned > 0)
+    : days.filter(day => day.burnoutScore !== null);
+  const ranked = [...candidates].sort(compareDays);
+
+  const goalProgress = goals.map(goal => ({
+    goal,
+    progress: getGoalProgress(goal, completions.filter(c => c.goal_id === goal.id)),
+  }));
+  const scores = days.flatMap(day => (day.burnoutScore === null ? [] : [day.burnoutScore]));
+
+  return {
+    goals: goalProgress,
+    completionRate: goalProgress.length > 0
+      ? goalProgress.reduce((sum, item) => sum + item.progress.ratio, 0) / goalProgress.length
+      : null,
+    avgBurnoutScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    bestDay: ranked[0] || null,
+    worstDay: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+  };
+}
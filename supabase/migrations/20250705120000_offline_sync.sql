@@ -0,0 +1,47 @@
+/*
+  # Offline sync support
+
+  1. Changes
+    - Add `updated_at` (timestamp) to `goals`, `daily_completions` and `burnout_checkins`
+    - Keep `updated_at` current on every update unless the client supplies a newer value
+
+  2. Notes
+    - The app stores rows locally in IndexedDB and replays queued writes when it
+      reconnects. Conflicts are resolved per row by comparing `updated_at`, so
+      clients send their own timestamp with each write and the trigger only
+      fills it in when it is missing or older than the stored value.
+*/
+
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE daily_completions ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE burnout_checkins ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+UPDATE goals SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE daily_completions SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE burnout_checkins SET updated_at = created_at WHERE updated_at IS NULL;
+
+-- Function to keep updated_at current
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS trigger AS $$
+BEGIN
+  IF new.updated_at IS NULL OR new.updated_at <= old.updated_at THEN
+    new.updated_at = now();
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS goals_touch_updated_at ON goals;
+CREATE TRIGGER goals_touch_updated_at
+  BEFORE UPDATE ON goals
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
+
+DROP TRIGGER IF EXISTS daily_completions_touch_updated_at ON daily_completions;
+CREATE TRIGGER daily_completions_touch_updated_at
+  BEFORE UPDATE ON daily_completions
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
+
+DROP TRIGGER IF EXISTS burnout_checkins_touch_updated_at ON burnout_checkins;
+CREATE TRIGGER burnout_checkins_touch_updated_at
+  BEFORE UPDATE ON burnout_checkins
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
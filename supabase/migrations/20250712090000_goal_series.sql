@@ -0,0 +1,55 @@
+/*
+  # Recurring goals
+
+  1. New Tables
+    - `goal_series` - A habit that repeats every week
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `title` (text)
+      - `description` (text, nullable)
+      - `target_days` (integer)
+      - `start_week` (date) - first week an instance is created for
+      - `end_week` (date, nullable) - last week, set when the series is ended
+      - `status` (text: active, paused or ended)
+      - `skipped_weeks` (date[]) - weeks whose instance was removed by hand
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `series_id` to `goals` so each weekly instance links back to its series
+
+  3. Security
+    - Enable RLS on `goal_series`
+    - Add policy for authenticated users to manage their own series
+*/
+
+CREATE TABLE IF NOT EXISTS goal_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text,
+  target_days integer NOT NULL DEFAULT 5,
+  start_week date NOT NULL,
+  end_week date,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  skipped_weeks date[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE goal_series ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES goal_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS goals_series_id_idx ON goals(series_id);
+
+CREATE POLICY "Users can manage own goal series"
+  ON goal_series
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS goal_series_touch_updated_at ON goal_series;
+CREATE TRIGGER goal_series_touch_updated_at
+  BEFORE UPDATE ON goal_series
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
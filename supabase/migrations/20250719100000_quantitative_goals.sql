@@ -0,0 +1,27 @@
+/*
+  # Quantitative goals
+
+  1. Changes
+    - `goals` and `goal_series`
+      - `unit` (text, nullable) - e.g. "pages", "km", "min"
+      - `target_amount` (numeric, nullable) - amount to reach per day or per week
+      - `target_period` (text, nullable: daily or weekly)
+    - `daily_completions`
+      - `value` (numeric, nullable) - amount recorded for the day
+
+  2. Notes
+    - Goals without a `target_amount` keep the done / not done behaviour.
+    - `completed` is still maintained for quantitative goals so existing
+      queries keep working: a day counts as completed when its target is met
+      (daily targets) or when anything was recorded (weekly targets).
+*/
+
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS unit text;
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS target_amount numeric CHECK (target_amount > 0);
+ALTER TABLE goals ADD COLUMN IF NOT EXISTS target_period text CHECK (target_period IN ('daily', 'weekly'));
+
+ALTER TABLE goal_series ADD COLUMN IF NOT EXISTS unit text;
+ALTER TABLE goal_series ADD COLUMN IF NOT EXISTS target_amount numeric CHECK (target_amount > 0);
+ALTER TABLE goal_series ADD COLUMN IF NOT EXISTS target_period text CHECK (target_period IN ('daily', 'weekly'));
+
+ALTER TABLE daily_completions ADD COLUMN IF NOT EXISTS value numeric CHECK (value >= 0);
@@ -0,0 +1,51 @@
+/*
+  # Versioned burnout scoring models
+
+  1. New Tables
+    - `burnout_scoring_models` - Weights and thresholds used to score check-ins
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `version` (integer) - increases with every saved change
+      - `config` (jsonb) - stress, sleep, mood and workload weights plus level cut-offs
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `model_version` to `burnout_checkins` to record which model produced
+      each score
+
+  3. Security
+    - Enable RLS on `burnout_scoring_models`
+    - Add policy for authenticated users to manage their own models
+
+  4. Notes
+    - Version 1 is the built-in default and is not stored. Check-ins with a
+      null `model_version` were scored with it.
+    - Models are append-only: editing saves a new version so older scores stay
+      comparable with the model that produced them.
+*/
+
+CREATE TABLE IF NOT EXISTS burnout_scoring_models (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL CHECK (version > 1),
+  config jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, version)
+);
+
+ALTER TABLE burnout_scoring_models ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE burnout_checkins ADD COLUMN IF NOT EXISTS model_version integer;
+
+CREATE POLICY "Users can manage own scoring models"
+  ON burnout_scoring_models
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS burnout_scoring_models_touch_updated_at ON burnout_scoring_models;
+CREATE TRIGGER burnout_scoring_models_touch_updated_at
+  BEFORE UPDATE ON burnout_scoring_models
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
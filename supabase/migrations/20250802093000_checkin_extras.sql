@@ -0,0 +1,16 @@
+/*
+  # Extra wellness metrics on check-ins
+
+  1. Changes
+    - `burnout_checkins`
+      - `extras` (jsonb) - values for metrics beyond stress, sleep, mood and
+        work hours, keyed by metric (e.g. `exercise_minutes`, `caffeine_cups`)
+
+  2. Notes
+    - Metrics are defined in the app's metric registry, so new ones can be
+      tracked without another migration.
+    - Only metrics the user recorded are stored; a missing key means the
+      metric was not tracked that day.
+*/
+
+ALTER TABLE burnout_checkins ADD COLUMN IF NOT EXISTS extras jsonb NOT NULL DEFAULT '{}';
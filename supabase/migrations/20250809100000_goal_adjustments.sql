@@ -0,0 +1,54 @@
+/*
+  # Adaptive goal adjustment log
+
+  1. New Tables
+    - `goal_adjustments` - Target changes proposed from burnout and completion
+      history, with the user's decision
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `goal_id` (uuid, nullable, references goals) - cleared if the goal is deleted
+      - `week_start` (date) - week the proposal was made for
+      - `from_days` (integer) - target days before the proposal
+      - `to_days` (integer) - proposed target days
+      - `reason` (text) - explanation shown with the proposal
+      - `decision` (text: accepted or rejected)
+      - `burnout_score` (numeric, nullable) - recent average score that led to it
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `goal_adjustments`
+    - Add policy for authenticated users to manage their own adjustments
+
+  3. Notes
+    - A goal with a logged decision for a week is not proposed again that week.
+*/
+
+CREATE TABLE IF NOT EXISTS goal_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  goal_id uuid REFERENCES goals(id) ON DELETE SET NULL,
+  week_start date NOT NULL,
+  from_days integer NOT NULL CHECK (from_days >= 1 AND from_days <= 7),
+  to_days integer NOT NULL CHECK (to_days >= 1 AND to_days <= 7),
+  reason text NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('accepted', 'rejected')),
+  burnout_score numeric,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE goal_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS goal_adjustments_user_week_idx ON goal_adjustments(user_id, week_start);
+
+CREATE POLICY "Users can manage own goal adjustments"
+  ON goal_adjustments
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS goal_adjustments_touch_updated_at ON goal_adjustments;
+CREATE TRIGGER goal_adjustments_touch_updated_at
+  BEFORE UPDATE ON goal_adjustments
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
@@ -0,0 +1,50 @@
+/*
+  # Weekly reviews
+
+  1. New Tables
+    - `weekly_reviews` - End-of-week reflections with a snapshot of the week
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `week_start` (date) - week that was reviewed
+      - `went_well` (text) - what worked
+      - `didnt_work` (text) - what didn't
+      - `completion_rate` (numeric, nullable) - average goal progress for the week, 0-1
+      - `avg_burnout_score` (numeric, nullable) - average burnout for the week
+      - `decisions` (jsonb) - keep, adjust or drop chosen for each goal
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `weekly_reviews`
+    - Add policy for authenticated users to manage their own reviews
+
+  3. Notes
+    - One review per user and week; reviewing a week again updates it.
+*/
+
+CREATE TABLE IF NOT EXISTS weekly_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  week_start date NOT NULL,
+  went_well text NOT NULL DEFAULT '',
+  didnt_work text NOT NULL DEFAULT '',
+  completion_rate numeric CHECK (completion_rate >= 0 AND completion_rate <= 1),
+  avg_burnout_score numeric,
+  decisions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, week_start)
+);
+
+ALTER TABLE weekly_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own weekly reviews"
+  ON weekly_reviews
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS weekly_reviews_touch_updated_at ON weekly_reviews;
+CREATE TRIGGER weekly_reviews_touch_updated_at
+  BEFORE UPDATE ON weekly_reviews
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
@@ -0,0 +1,47 @@
+/*
+  # User preferences
+
+  1. New Tables
+    - `user_preferences` - Settings that change how GoalSync plans and shows your weeks
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `week_starts_on` (smallint) - first day of the week, 0 = Sunday to 6 = Saturday
+      - `timezone` (text, nullable) - IANA timezone used for "today"; the device's when null
+      - `default_target_days` (integer) - days per week new goals start with
+      - `units` (text) - `metric` or `imperial`, used to suggest goal units
+      - `reminder_time` (text, nullable) - daily check-in reminder as HH:MM
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `user_preferences`
+    - Add policy for authenticated users to manage their own preferences
+
+  3. Notes
+    - One row per user. Users without a row get the defaults below.
+*/
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  week_starts_on smallint NOT NULL DEFAULT 1 CHECK (week_starts_on >= 0 AND week_starts_on <= 6),
+  timezone text,
+  default_target_days integer NOT NULL DEFAULT 5 CHECK (default_target_days >= 1 AND default_target_days <= 7),
+  units text NOT NULL DEFAULT 'metric' CHECK (units IN ('metric', 'imperial')),
+  reminder_time text DEFAULT '20:00' CHECK (reminder_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own preferences"
+  ON user_preferences
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS user_preferences_touch_updated_at ON user_preferences;
+CREATE TRIGGER user_preferences_touch_updated_at
+  BEFORE UPDATE ON user_preferences
+  FOR EACH ROW EXECUTE PROCEDURE touch_updated_at();
@@ -0,0 +1,54 @@
+/*
+  # One instance per recurring goal and week
+
+  1. Changes
+    - Merge duplicate weekly instances of a series, created when two devices
+      spawned the same week offline. The earliest instance is kept; the
+      others' completions move to it where it has none for that day, and
+      their adjustments are re-pointed to it.
+    - Add a partial unique index on `goals (series_id, week_start)` for
+      goals that belong to a series
+
+  2. Notes
+    - Sync uses the same columns as the goal's natural key, so an instance
+      spawned on another device is merged instead of duplicated.
+*/
+
+CREATE TEMP TABLE duplicate_series_goals AS
+SELECT id, keep_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (PARTITION BY series_id, week_start ORDER BY created_at, id) AS keep_id
+  FROM goals
+  WHERE series_id IS NOT NULL
+) ranked
+WHERE id <> keep_id;
+
+UPDATE daily_completions dc
+SET goal_id = moved.keep_id
+FROM (
+  SELECT DISTINCT ON (d.keep_id, c.date) c.id, d.keep_id
+  FROM daily_completions c
+  JOIN duplicate_series_goals d ON c.goal_id = d.id
+  WHERE NOT EXISTS (
+    SELECT 1 FROM daily_completions k WHERE k.goal_id = d.keep_id AND k.date = c.date
+  )
+  ORDER BY d.keep_id, c.date, c.updated_at DESC
+) moved
+WHERE dc.id = moved.id;
+
+UPDATE goal_adjustments ga
+SET goal_id = d.keep_id
+FROM duplicate_series_goals d
+WHERE ga.goal_id = d.id;
+
+DELETE FROM goals g
+USING duplicate_series_goals d
+WHERE g.id = d.id;
+
+DROP TABLE duplicate_series_goals;
+
+CREATE UNIQUE INDEX IF NOT EXISTS goals_series_week_key
+  ON goals(series_id, week_start)
+  WHERE series_id IS NOT NULL;
@@ -0,0 +1,11 @@
+/*
+  # Streak rest days preference
+
+  1. Changes
+    - Add `streak_rest_days` (smallint, nullable) to `user_preferences` - days
+      a week a daily streak may miss without breaking; null allows the days a
+      goal's target leaves free (7 minus its target days)
+*/
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS streak_rest_days smallint CHECK (streak_rest_days >= 0 AND streak_rest_days <= 6);